@@ -3,6 +3,7 @@ import { blink } from './lib/blink'
 import MainLobby from './components/MainLobby'
 import CharacterCreation from './components/CharacterCreation'
 import GameBoard from './components/game/GameBoard'
+import { getPlayerForUser } from './lib/game/repository'
 import { Toaster } from './components/ui/sonner'
 
 export type GameState = 'lobby' | 'character-creation' | 'game'
@@ -58,11 +59,9 @@ function App() {
             
             // Check if user already has a character in this game
             try {
-              const existingPlayers = await blink.db.players.list({
-                where: { game_id: gameId, user_id: user.id }
-              })
-              
-              if (existingPlayers.length > 0) {
+              const existingPlayer = await getPlayerForUser(gameId, user.id)
+
+              if (existingPlayer) {
                 // User already has a character, go directly to game
                 setGameState('game')
               } else {
@@ -75,6 +74,11 @@ function App() {
               setGameState('character-creation')
             }
           }}
+          onWatchGame={(gameId) => {
+            // Spectators skip character creation; the board sees no hero
+            setCurrentGameId(gameId)
+            setGameState('game')
+          }}
         />
       )}
       
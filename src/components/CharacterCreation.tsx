@@ -1,5 +1,4 @@
-import { useState } from 'react'
-import { blink } from '../lib/blink'
+import { useEffect, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
@@ -7,6 +6,13 @@ import { Label } from './ui/label'
 import { Badge } from './ui/badge'
 import { ArrowLeft, Dice6, Sparkles, Sword, Shield, Wand2, Target, Heart, Brain } from 'lucide-react'
 import { toast } from 'sonner'
+import { rollForGame } from '../lib/game/persistence'
+import { getGame } from '../lib/game/repository'
+import { DEFAULT_GAME_SETTINGS } from '../lib/game/settings'
+import { abilityScoresFromDice } from '../lib/game/dice'
+import { joinGame, SeatError } from '../lib/game/seats'
+import { AccessError } from '../lib/game/access'
+import type { GameSettings } from '../lib/game/types'
 
 interface CharacterStats {
   strength: number
@@ -100,26 +106,45 @@ export default function CharacterCreation({ user, gameId, onCharacterCreated, on
   })
   const [creating, setCreating] = useState(false)
   const [hasRolled, setHasRolled] = useState(false)
+  const [rolling, setRolling] = useState(false)
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_GAME_SETTINGS)
 
-  const rollStats = () => {
-    const newStats: CharacterStats = {
-      strength: rollStat(),
-      dexterity: rollStat(),
-      constitution: rollStat(),
-      intelligence: rollStat(),
-      wisdom: rollStat(),
-      charisma: rollStat()
-    }
-    setStats(newStats)
-    setHasRolled(true)
-    toast.success('Character attributes rolled!')
-  }
+  // Starting gold and health come from the host's settings
+  useEffect(() => {
+    getGame(gameId)
+      .then(game => game && setSettings(game.settings))
+      .catch(error => console.error('Failed to load game settings:', error))
+  }, [gameId])
+
+  const rollStats = async () => {
+    setRolling(true)
+    try {
+      // Roll 4d6 per ability from the game's seed so the result can be verified
+      const roll = await rollForGame(gameId, {
+        purpose: 'ability_scores',
+        count: 24,
+        sides: 6,
+        stream: `stats:${user.id}`
+      })
+      const scores = abilityScoresFromDice(roll.values)
 
-  const rollStat = (): number => {
-    // Roll 4d6, drop lowest (standard D&D method)
-    const rolls = Array.from({ length: 4 }, () => Math.floor(Math.random() * 6) + 1)
-    rolls.sort((a, b) => b - a)
-    return rolls.slice(0, 3).reduce((sum, roll) => sum + roll, 0)
+      const newStats: CharacterStats = {
+        strength: scores[0],
+        dexterity: scores[1],
+        constitution: scores[2],
+        intelligence: scores[3],
+        wisdom: scores[4],
+        charisma: scores[5]
+      }
+      setStats(newStats)
+      setHasRolled(true)
+      toast.success('Character attributes rolled!')
+    } catch (error) {
+      console.error('Failed to roll attributes:', error)
+      toast.error('Failed to roll attributes')
+    } finally {
+      setRolling(false)
+    }
   }
 
   const getStatModifier = (stat: number): string => {
@@ -151,33 +176,21 @@ export default function CharacterCreation({ user, gameId, onCharacterCreated, on
 
     setCreating(true)
     try {
-      // Check how many players are already in the game - get all and filter
-      const allPlayers = await blink.db.players.list({
-        orderBy: { player_number: 'asc' },
-        limit: 100
-      })
-      
-      const existingPlayers = allPlayers.filter(p => p.game_id === gameId)
-      const playerNumber = existingPlayers.length + 1
-      if (playerNumber > 4) {
-        toast.error('Game is full')
-        return
-      }
-
-      // Create the player with character data
-      await blink.db.players.create({
-        id: `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        game_id: gameId,
-        user_id: user.id,
-        player_number: playerNumber,
+      // Claims a free seat and creates the hero in it
+      await joinGame(gameId, user.id, {
         character_name: characterName.trim(),
         character_class: selectedClass,
         position: 0,
-        health: 100,
-        gold: 1500,
-        inventory: '[]',
-        properties: '[]',
-        is_ai: 0,
+        health: settings.starting_health,
+        gold: settings.starting_gold,
+        inventory: [],
+        boons: [],
+        properties: [],
+        is_ai: false,
+        ai_controlled: false,
+        ai_personality: null,
+        status: 'active',
+        knockouts: 0,
         avatar: CHARACTER_CLASSES.find(c => c.name === selectedClass)?.icon === Sword ? '⚔️' : 
                 CHARACTER_CLASSES.find(c => c.name === selectedClass)?.icon === Shield ? '🛡️' :
                 CHARACTER_CLASSES.find(c => c.name === selectedClass)?.icon === Wand2 ? '🧙‍♂️' :
@@ -188,17 +201,17 @@ export default function CharacterCreation({ user, gameId, onCharacterCreated, on
         constitution: stats.constitution,
         intelligence: stats.intelligence,
         wisdom: stats.wisdom,
-        charisma: stats.charisma
-      })
-
-      // Update game player count
-      await blink.db.games.update(gameId, {
-        current_players: playerNumber
+        charisma: stats.charisma,
+        last_seen_at: Date.now()
       })
 
       toast.success('Character created successfully!')
       onCharacterCreated()
     } catch (error) {
+      if (error instanceof SeatError || error instanceof AccessError) {
+        toast.error(error.message)
+        return
+      }
       console.error('Failed to create character:', error)
       toast.error('Failed to create character')
     } finally {
@@ -336,10 +349,10 @@ export default function CharacterCreation({ user, gameId, onCharacterCreated, on
                 <Button
                   onClick={rollStats}
                   className="w-full bg-shadow-realm-purple hover:bg-purple-600 text-white"
-                  disabled={creating}
+                  disabled={creating || rolling}
                 >
                   <Sparkles className="w-4 h-4 mr-2" />
-                  {hasRolled ? 'Reroll Attributes' : 'Roll Attributes'}
+                  {rolling ? 'Rolling...' : hasRolled ? 'Reroll Attributes' : 'Roll Attributes'}
                 </Button>
 
                 <div className="grid grid-cols-2 gap-4">
@@ -398,11 +411,11 @@ export default function CharacterCreation({ user, gameId, onCharacterCreated, on
                     </div>
                     <div className="flex justify-between">
                       <span className="text-shadow-realm-text/80">Health:</span>
-                      <span className="text-shadow-realm-text font-semibold">100 HP</span>
+                      <span className="text-shadow-realm-text font-semibold">{settings.starting_health} HP</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-shadow-realm-text/80">Starting Gold:</span>
-                      <span className="text-shadow-realm-text font-semibold">1,500 GP</span>
+                      <span className="text-shadow-realm-text font-semibold">{settings.starting_gold.toLocaleString()} GP</span>
                     </div>
                   </div>
                 </CardContent>
@@ -0,0 +1,315 @@
+import { useState, type ReactNode } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Checkbox } from './ui/checkbox'
+import { Switch } from './ui/switch'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { listBoards } from '../lib/game/board'
+import { DEFAULT_GAME_ACCESS, type GameAccess } from '../lib/game/access'
+import { DEATH_MODES, DEFAULT_DEATH_RULES } from '../lib/game/engine'
+import { VICTORY_CONDITIONS } from '../lib/game/victory'
+import {
+  DEFAULT_GAME_SETTINGS,
+  HOUSE_RULES,
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+  PASS_START_BONUS_OPTIONS,
+  STARTING_GOLD_OPTIONS,
+  STARTING_HEALTH_OPTIONS,
+  TURN_LIMIT_OPTIONS,
+  TURN_TIMER_OPTIONS
+} from '../lib/game/settings'
+import type { DeathRules, GameSettings, HouseRules, VictoryCondition } from '../lib/game/types'
+
+interface CreateGameDialogProps {
+  open: boolean
+  creating: boolean
+  onOpenChange: (open: boolean) => void
+  onCreate: (name: string, settings: GameSettings, access: GameAccess) => void
+}
+
+const PLAYER_COUNTS = Array.from({ length: MAX_PLAYERS - MIN_PLAYERS + 1 }, (_, i) => MIN_PLAYERS + i)
+
+// A labelled select over a fixed list of numbers
+function NumberSetting({
+  label,
+  value,
+  options,
+  format,
+  onChange
+}: {
+  label: string
+  value: number
+  options: number[]
+  format: (value: number) => ReactNode
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-shadow-realm-text/80">{label}</Label>
+      <Select value={String(value)} onValueChange={(next) => onChange(Number(next))}>
+        <SelectTrigger className="h-8 text-xs bg-shadow-realm-bg border-shadow-realm-purple/30 text-shadow-realm-text">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option} value={String(option)} className="text-xs">
+              {format(option)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+export default function CreateGameDialog({ open, creating, onOpenChange, onCreate }: CreateGameDialogProps) {
+  const [name, setName] = useState('')
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_GAME_SETTINGS)
+  const [access, setAccess] = useState<GameAccess>(DEFAULT_GAME_ACCESS)
+  const boards = listBoards()
+
+  const update = (changes: Partial<GameSettings>) => setSettings(prev => ({ ...prev, ...changes }))
+
+  const toggleVictoryCondition = (condition: VictoryCondition, enabled: boolean) => {
+    const conditions = settings.victory_rules.conditions
+    update({
+      victory_rules: {
+        ...settings.victory_rules,
+        conditions: enabled ? [...conditions, condition] : conditions.filter(c => c !== condition)
+      }
+    })
+  }
+
+  const toggleHouseRule = (rule: keyof HouseRules, enabled: boolean) => {
+    update({ house_rules: { ...settings.house_rules, [rule]: enabled } })
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setName('')
+      setSettings(DEFAULT_GAME_SETTINGS)
+      setAccess(DEFAULT_GAME_ACCESS)
+    }
+    onOpenChange(next)
+  }
+
+  const canCreate = name.trim() !== '' && settings.victory_rules.conditions.length > 0 && !creating
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-shadow-realm-surface border-shadow-realm-purple/30 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-shadow-realm-gold">Create Game</DialogTitle>
+          <DialogDescription className="text-shadow-realm-text/70">
+            Set the rules for your adventure. They are fixed once the game is created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            placeholder="Enter game name..."
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="bg-shadow-realm-bg border-shadow-realm-purple/30 text-shadow-realm-text"
+            onKeyDown={(e) => e.key === 'Enter' && canCreate && onCreate(name.trim(), settings, access)}
+          />
+
+          {/* Table */}
+          <div className="grid grid-cols-2 gap-3">
+            <NumberSetting
+              label="Players"
+              value={settings.max_players}
+              options={PLAYER_COUNTS}
+              format={(count) => `${count} players`}
+              onChange={(max_players) => update({ max_players })}
+            />
+            <div className="space-y-1">
+              <Label className="text-xs text-shadow-realm-text/80">Board</Label>
+              <Select value={settings.board_id} onValueChange={(board_id) => update({ board_id })}>
+                <SelectTrigger className="h-8 text-xs bg-shadow-realm-bg border-shadow-realm-purple/30 text-shadow-realm-text">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {boards.map(board => (
+                    <SelectItem key={board.id} value={board.id} className="text-xs">
+                      {board.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <label className="flex items-center justify-between text-sm text-shadow-realm-text">
+            Fill empty seats with AI heroes
+            <Switch checked={settings.ai_fill} onCheckedChange={(ai_fill) => update({ ai_fill })} />
+          </label>
+
+          {/* Heroes */}
+          <div className="grid grid-cols-3 gap-3">
+            <NumberSetting
+              label="Starting Gold"
+              value={settings.starting_gold}
+              options={STARTING_GOLD_OPTIONS}
+              format={(gold) => `${gold.toLocaleString()} GP`}
+              onChange={(starting_gold) => update({ starting_gold })}
+            />
+            <NumberSetting
+              label="Starting Health"
+              value={settings.starting_health}
+              options={STARTING_HEALTH_OPTIONS}
+              format={(health) => `${health} HP`}
+              onChange={(starting_health) => update({ starting_health })}
+            />
+            <NumberSetting
+              label="Portal Bonus"
+              value={settings.pass_start_bonus}
+              options={PASS_START_BONUS_OPTIONS}
+              format={(bonus) => `${bonus} GP`}
+              onChange={(pass_start_bonus) => update({ pass_start_bonus })}
+            />
+          </div>
+
+          {/* Idle or disconnected heroes hand their turn to the AI */}
+          <NumberSetting
+            label="Turn Timer"
+            value={settings.turn_timer}
+            options={TURN_TIMER_OPTIONS}
+            format={(seconds) => seconds === 0 ? 'No turn timer' : `${seconds / 60} min per turn`}
+            onChange={(turn_timer) => update({ turn_timer })}
+          />
+
+          {/* Death Rules */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-shadow-realm-text/80">When a hero falls</Label>
+              <Select
+                value={settings.death_rules.mode}
+                onValueChange={(mode) => update({ death_rules: { ...settings.death_rules, mode: mode as DeathRules['mode'] } })}
+              >
+                <SelectTrigger className="h-8 text-xs bg-shadow-realm-bg border-shadow-realm-purple/30 text-shadow-realm-text">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DEATH_MODES).map(([key, label]) => (
+                    <SelectItem key={key} value={key} className="text-xs">
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-shadow-realm-text/80">Elimination</Label>
+              <Select
+                value={settings.death_rules.eliminate_after === null ? 'off' : 'on'}
+                onValueChange={(value) => update({
+                  death_rules: {
+                    ...settings.death_rules,
+                    eliminate_after: value === 'on' ? DEFAULT_DEATH_RULES.eliminate_after : null
+                  }
+                })}
+              >
+                <SelectTrigger className="h-8 text-xs bg-shadow-realm-bg border-shadow-realm-purple/30 text-shadow-realm-text">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="on" className="text-xs">
+                    Out after {DEFAULT_DEATH_RULES.eliminate_after} knockouts
+                  </SelectItem>
+                  <SelectItem value="off" className="text-xs">
+                    No elimination
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Victory Conditions */}
+          <div className="space-y-1">
+            <Label className="text-xs text-shadow-realm-text/80">Victory conditions</Label>
+            {Object.entries(VICTORY_CONDITIONS).map(([key, condition]) => (
+              <label key={key} className="flex items-center gap-2 text-xs text-shadow-realm-text" title={condition.description}>
+                <Checkbox
+                  checked={settings.victory_rules.conditions.includes(key as VictoryCondition)}
+                  onCheckedChange={(checked) => toggleVictoryCondition(key as VictoryCondition, checked === true)}
+                  className="border-shadow-realm-purple/50"
+                />
+                {condition.label}
+              </label>
+            ))}
+            {settings.victory_rules.conditions.includes('richest') && (
+              <NumberSetting
+                label="Turn limit"
+                value={settings.victory_rules.turn_limit}
+                options={TURN_LIMIT_OPTIONS}
+                format={(limit) => `Richest after ${limit} turns`}
+                onChange={(turn_limit) => update({ victory_rules: { ...settings.victory_rules, turn_limit } })}
+              />
+            )}
+          </div>
+
+          {/* House Rules */}
+          <div className="space-y-1">
+            <Label className="text-xs text-shadow-realm-text/80">House rules</Label>
+            {(Object.entries(HOUSE_RULES) as [keyof HouseRules, { label: string; description: string }][]).map(([key, rule]) => (
+              <label key={key} className="flex items-center gap-2 text-xs text-shadow-realm-text" title={rule.description}>
+                <Checkbox
+                  checked={settings.house_rules[key]}
+                  onCheckedChange={(checked) => toggleHouseRule(key, checked === true)}
+                  className="border-shadow-realm-purple/50"
+                />
+                {rule.label}
+              </label>
+            ))}
+          </div>
+
+          {/* Privacy */}
+          <div className="space-y-2 border-t border-shadow-realm-purple/20 pt-3">
+            <label className="flex items-center justify-between text-sm text-shadow-realm-text">
+              Private game (invite code only)
+              <Switch
+                checked={access.visibility === 'private'}
+                onCheckedChange={(checked) => setAccess(prev => ({ ...prev, visibility: checked ? 'private' : 'public' }))}
+              />
+            </label>
+            <label className="flex items-center justify-between text-sm text-shadow-realm-text">
+              Approve each hero before they join
+              <Switch
+                checked={access.require_approval}
+                onCheckedChange={(require_approval) => setAccess(prev => ({ ...prev, require_approval }))}
+              />
+            </label>
+            <Input
+              type="password"
+              placeholder="Password (optional)"
+              value={access.password}
+              onChange={(e) => setAccess(prev => ({ ...prev, password: e.target.value }))}
+              className="h-8 text-xs bg-shadow-realm-bg border-shadow-realm-purple/30 text-shadow-realm-text"
+              autoComplete="new-password"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            className="border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onCreate(name.trim(), settings, access)}
+            disabled={!canCreate}
+            className="bg-shadow-realm-purple hover:bg-purple-600 text-white"
+          >
+            {creating ? 'Creating...' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
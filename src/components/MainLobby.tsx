@@ -5,51 +5,86 @@ import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Badge } from './ui/badge'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
-import { Gamepad2, Users, User, Settings, Plus, Crown, Sword } from 'lucide-react'
+import { Gamepad2, Users, User, Settings, Plus, Crown, Sword, Lock, KeyRound, Eye, ChevronLeft, ChevronRight } from 'lucide-react'
 import { toast } from 'sonner'
-
-interface Game {
-  id: string
-  name: string
-  status: string
-  current_players: number
-  max_players: number
-  host_user_id: string
-  created_at: string
-}
+import { createSeed } from '../lib/game/dice'
+import { createGame as createGameRow, findGameByInviteCode, listLobbyGames, listPlayers } from '../lib/game/repository'
+import { notifyLobbyChanged, subscribeToLobby } from '../lib/game/sync'
+import {
+  AccessError,
+  getJoinRequest,
+  hasPassword,
+  isListedGame,
+  requestToJoin,
+  takeInviteCodeFromUrl,
+  toAccessFields,
+  type GameAccess
+} from '../lib/game/access'
+import { useGameSync } from '../hooks/use-game-sync'
+import type { Game } from '../lib/game/models'
+import type { GameSettings } from '../lib/game/types'
+import CreateGameDialog from './CreateGameDialog'
 
 interface MainLobbyProps {
   user: any
   onStartGame: (gameId: string) => void
+  onWatchGame: (gameId: string) => void
 }
 
-export default function MainLobby({ user, onStartGame }: MainLobbyProps) {
+export default function MainLobby({ user, onStartGame, onWatchGame }: MainLobbyProps) {
   const [games, setGames] = useState<Game[]>([])
+  const [page, setPage] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
   const [loading, setLoading] = useState(true)
   const [showCreateGame, setShowCreateGame] = useState(false)
-  const [gameName, setGameName] = useState('')
   const [creating, setCreating] = useState(false)
+  const [inviteCode, setInviteCode] = useState('')
+  // Game waiting on a password before the user can join
+  const [passwordGame, setPasswordGame] = useState<Game | null>(null)
+  const [password, setPassword] = useState('')
+  // Game whose host has yet to approve the user
+  const [pendingGame, setPendingGame] = useState<Game | null>(null)
 
   useEffect(() => {
     loadGames()
-    // Auto-refresh games every 30 seconds
-    const interval = setInterval(loadGames, 30000)
-    return () => clearInterval(interval)
-  }, [])
+    // Refresh whenever a game is created, joined or started
+    return subscribeToLobby(loadGames)
+  }, [page]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Invite links land here with the code in the URL
+  useEffect(() => {
+    const code = takeInviteCodeFromUrl()
+    if (code) joinByInviteCode(code)
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Go straight in once the host answers
+  useGameSync(pendingGame?.id ?? null, ['access'], async () => {
+    if (!pendingGame) return
+    try {
+      const request = await getJoinRequest(pendingGame.id, user.id)
+      if (request?.status === 'approved') {
+        toast.success(`You were admitted to ${pendingGame.name}!`)
+        setPendingGame(null)
+        onStartGame(pendingGame.id)
+      } else if (request?.status === 'declined') {
+        toast.error(`The host of ${pendingGame.name} declined your request`)
+        setPendingGame(null)
+      }
+    } catch (error) {
+      console.error('Failed to check join request:', error)
+    }
+  })
 
   const loadGames = async () => {
     try {
-      // Get all games and filter in memory since OR queries are causing issues
-      const gamesList = await blink.db.games.list({
-        orderBy: { created_at: 'desc' },
-        limit: 20
-      })
-      
-      // Filter for waiting or active games
-      const filteredGames = gamesList.filter(game => 
-        game.status === 'waiting' || game.status === 'active'
-      ).slice(0, 10)
-      setGames(filteredGames)
+      const result = await listLobbyGames(user.id, page)
+      // Games that finish can empty the last page; step back to one with games
+      if (result.games.length === 0 && page > 0) {
+        setPage(page - 1)
+        return
+      }
+      setGames(result.games)
+      setHasMore(result.hasMore)
     } catch (error) {
       console.error('Failed to load games:', error)
       toast.error('Failed to load games')
@@ -58,8 +93,8 @@ export default function MainLobby({ user, onStartGame }: MainLobbyProps) {
     }
   }
 
-  const createGame = async () => {
-    if (!gameName.trim()) {
+  const createGame = async (gameName: string, settings: GameSettings, access: GameAccess) => {
+    if (!gameName) {
       toast.error('Please enter a game name')
       return
     }
@@ -69,22 +104,34 @@ export default function MainLobby({ user, onStartGame }: MainLobbyProps) {
       const gameId = `game_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
       
       // Create the game
-      await blink.db.games.create({
+      await createGameRow({
         id: gameId,
-        name: gameName.trim(),
+        name: gameName,
         status: 'waiting',
-        max_players: 4,
         current_players: 0,
         host_user_id: user.id,
-        adventure_prompt: '',
         adventure_story: '',
+        epilogue: null,
         current_turn: 1,
-        current_player: 1
+        current_player: 1,
+        version: 0,
+        ai_difficulty: 'normal',
+        turn_phase: 'awaiting_move',
+        turn_started_at: null,
+        quest_position: null,
+        winner_id: null,
+        settings,
+        ...(await toAccessFields(gameId, access))
+      }, {
+        seed: createSeed(),
+        roll_index: 0,
+        adventure_prompt: ''
       })
 
+      await notifyLobbyChanged()
+
       toast.success('Game created successfully!')
       setShowCreateGame(false)
-      setGameName('')
       onStartGame(gameId)
     } catch (error) {
       console.error('Failed to create game:', error)
@@ -94,17 +141,11 @@ export default function MainLobby({ user, onStartGame }: MainLobbyProps) {
     }
   }
 
-  const joinGame = async (gameId: string) => {
+  const joinGame = async (game: Game, gamePassword?: string) => {
+    const gameId = game.id
     try {
       // Check current players
-      const existingPlayers = await blink.db.players.list({
-        where: { game_id: gameId }
-      })
-
-      if (existingPlayers.length >= 4) {
-        toast.error('Game is full')
-        return
-      }
+      const existingPlayers = await listPlayers(gameId)
 
       // Check if user already in game
       const userInGame = existingPlayers.find(p => p.user_id === user.id)
@@ -115,15 +156,61 @@ export default function MainLobby({ user, onStartGame }: MainLobbyProps) {
         return
       }
 
+      if (existingPlayers.length >= game.settings.max_players) {
+        toast.error('Game is full', isListedGame(game)
+          ? { action: { label: 'Watch', onClick: () => onWatchGame(gameId) } }
+          : undefined)
+        return
+      }
+
+      // Ask for the password first, then come back here with it
+      if (hasPassword(game) && game.host_user_id !== user.id && gamePassword === undefined) {
+        setPasswordGame(game)
+        return
+      }
+
+      const status = await requestToJoin(game, user, gamePassword ?? '')
+      setPasswordGame(null)
+      setPassword('')
+      if (status === 'pending') {
+        toast.success('Request sent. Waiting for the host to let you in...')
+        setPendingGame(game)
+        return
+      }
+
       // Go to character creation for new players
       toast.success('Joining game...')
       onStartGame(gameId)
     } catch (error) {
+      if (error instanceof AccessError) {
+        toast.error(error.message)
+        return
+      }
       console.error('Failed to join game:', error)
       toast.error('Failed to join game')
     }
   }
 
+  const joinByInviteCode = async (code: string) => {
+    if (!code.trim()) {
+      toast.error('Please enter an invite code')
+      return
+    }
+
+    try {
+      const game = await findGameByInviteCode(code)
+      if (!game || game.status === 'finished') {
+        toast.error('No open game has that invite code')
+        return
+      }
+      setInviteCode('')
+      await joinGame(game)
+    } catch (error) {
+      console.error('Failed to find game:', error)
+      toast.error('Failed to find game')
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-shadow-realm-bg via-shadow-realm-surface to-shadow-realm-bg">
       {/* Floating Background Elements */}
@@ -184,44 +271,19 @@ export default function MainLobby({ user, onStartGame }: MainLobbyProps) {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              {!showCreateGame ? (
-                <Button
-                  onClick={() => setShowCreateGame(true)}
-                  className="w-full bg-shadow-realm-purple hover:bg-purple-600 text-white"
-                >
-                  <Plus className="w-4 h-4 mr-2" />
-                  Create Game
-                </Button>
-              ) : (
-                <div className="space-y-4">
-                  <Input
-                    placeholder="Enter game name..."
-                    value={gameName}
-                    onChange={(e) => setGameName(e.target.value)}
-                    className="bg-shadow-realm-bg border-shadow-realm-purple/30 text-shadow-realm-text"
-                    onKeyPress={(e) => e.key === 'Enter' && createGame()}
-                  />
-                  <div className="flex gap-2">
-                    <Button
-                      onClick={createGame}
-                      disabled={creating}
-                      className="flex-1 bg-shadow-realm-purple hover:bg-purple-600 text-white"
-                    >
-                      {creating ? 'Creating...' : 'Create'}
-                    </Button>
-                    <Button
-                      variant="outline"
-                      onClick={() => {
-                        setShowCreateGame(false)
-                        setGameName('')
-                      }}
-                      className="border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
-                    >
-                      Cancel
-                    </Button>
-                  </div>
-                </div>
-              )}
+              <Button
+                onClick={() => setShowCreateGame(true)}
+                className="w-full bg-shadow-realm-purple hover:bg-purple-600 text-white"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Create Game
+              </Button>
+              <CreateGameDialog
+                open={showCreateGame}
+                creating={creating}
+                onOpenChange={setShowCreateGame}
+                onCreate={createGame}
+              />
             </CardContent>
           </Card>
 
@@ -236,7 +298,7 @@ export default function MainLobby({ user, onStartGame }: MainLobbyProps) {
                 Join existing games or browse active sessions
               </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-3">
               <Button
                 onClick={() => {
                   loadGames()
@@ -247,6 +309,72 @@ export default function MainLobby({ user, onStartGame }: MainLobbyProps) {
                 <Sword className="w-4 h-4 mr-2" />
                 Browse Games
               </Button>
+              {/* Private games are joined by code */}
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Invite code"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                  onKeyDown={(e) => e.key === 'Enter' && joinByInviteCode(inviteCode)}
+                  className="bg-shadow-realm-bg border-shadow-realm-purple/30 text-shadow-realm-text uppercase tracking-widest"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => joinByInviteCode(inviteCode)}
+                  className="border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  Join
+                </Button>
+              </div>
+              {pendingGame && (
+                <div className="flex items-center justify-between gap-2 text-sm text-shadow-realm-text/80">
+                  <span>Waiting for the host of {pendingGame.name} to let you in...</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPendingGame(null)}
+                    className="text-shadow-realm-text/60 hover:text-shadow-realm-text"
+                  >
+                    Stop waiting
+                  </Button>
+                </div>
+              )}
+              <Dialog
+                open={passwordGame !== null}
+                onOpenChange={(open) => {
+                  if (!open) {
+                    setPasswordGame(null)
+                    setPassword('')
+                  }
+                }}
+              >
+                <DialogContent className="bg-shadow-realm-surface border-shadow-realm-purple/30">
+                  <DialogHeader>
+                    <DialogTitle className="text-shadow-realm-gold">Password Required</DialogTitle>
+                    <DialogDescription className="text-shadow-realm-text/70">
+                      {passwordGame?.name} is protected by a password
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="flex gap-2">
+                    <Input
+                      type="password"
+                      placeholder="Password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && passwordGame && joinGame(passwordGame, password)}
+                      className="bg-shadow-realm-bg border-shadow-realm-purple/30 text-shadow-realm-text"
+                      autoFocus
+                    />
+                    <Button
+                      onClick={() => passwordGame && joinGame(passwordGame, password)}
+                      className="bg-shadow-realm-purple hover:bg-purple-600 text-white"
+                    >
+                      Join
+                    </Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
             </CardContent>
           </Card>
 
@@ -384,6 +512,14 @@ export default function MainLobby({ user, onStartGame }: MainLobbyProps) {
                             {game.host_user_id === user.id && (
                               <Crown className="w-4 h-4 text-shadow-realm-gold" />
                             )}
+                            {hasPassword(game) && (
+                              <Lock className="w-4 h-4 text-shadow-realm-text/60" />
+                            )}
+                            {!isListedGame(game) && (
+                              <Badge variant="outline" className="text-xs border-shadow-realm-purple/30 text-shadow-realm-text/60">
+                                Private
+                              </Badge>
+                            )}
                           </h3>
                           <p className="text-shadow-realm-text/70 text-sm">
                             Created {new Date(game.created_at).toLocaleDateString()}
@@ -392,10 +528,20 @@ export default function MainLobby({ user, onStartGame }: MainLobbyProps) {
                       </div>
                       <div className="flex items-center gap-4">
                         <Badge variant="secondary" className="bg-shadow-realm-purple/20 text-shadow-realm-purple">
-                          {game.current_players}/{game.max_players} Players
+                          {game.current_players}/{game.settings.max_players} Players
                         </Badge>
+                        {isListedGame(game) && game.host_user_id !== user.id && (
+                          <Button
+                            variant="outline"
+                            onClick={() => onWatchGame(game.id)}
+                            className="border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
+                          >
+                            <Eye className="w-4 h-4 mr-2" />
+                            Watch
+                          </Button>
+                        )}
                         <Button
-                          onClick={() => joinGame(game.id)}
+                          onClick={() => joinGame(game)}
                           className="bg-shadow-realm-purple hover:bg-purple-600 text-white"
                         >
                           {game.host_user_id === user.id ? 'Resume' : 'Join'}
@@ -406,6 +552,32 @@ export default function MainLobby({ user, onStartGame }: MainLobbyProps) {
                 </Card>
               ))}
             </div>
+
+            {(page > 0 || hasMore) && (
+              <div className="flex items-center justify-center gap-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page === 0}
+                  onClick={() => setPage(page - 1)}
+                  className="border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Newer
+                </Button>
+                <span className="text-sm text-shadow-realm-text/70">Page {page + 1}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!hasMore}
+                  onClick={() => setPage(page + 1)}
+                  className="border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
+                >
+                  Older
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Button>
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,73 @@
+import type { MouseEvent } from 'react'
+import { getTileCenter, type BoardLayout } from '../../lib/game/layout'
+
+interface MinimapTile {
+  position: number
+  color: string
+}
+
+interface BoardMinimapProps {
+  layout: BoardLayout
+  tiles: MinimapTile[]
+  playerPositions: number[]
+  currentPosition: number | null
+  visibleRect: { x: number; y: number; width: number; height: number }
+  onNavigate: (point: { x: number; y: number }) => void
+}
+
+const MINIMAP_WIDTH = 160
+
+export default function BoardMinimap({ layout, tiles, playerPositions, currentPosition, visibleRect, onNavigate }: BoardMinimapProps) {
+  const scale = MINIMAP_WIDTH / layout.width
+  const height = layout.height * scale
+
+  // Clicking the map moves the viewport there
+  const handleClick = (event: MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    onNavigate({
+      x: (event.clientX - bounds.left) / scale,
+      y: (event.clientY - bounds.top) / scale
+    })
+  }
+
+  return (
+    <svg
+      width={MINIMAP_WIDTH}
+      height={height}
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      onClick={handleClick}
+      onPointerDown={(event) => event.stopPropagation()}
+      className="cursor-pointer rounded border border-shadow-realm-purple/30 bg-shadow-realm-surface/80"
+    >
+      {tiles.map(tile => {
+        const center = getTileCenter(layout, tile.position)
+        return <circle key={tile.position} cx={center.x} cy={center.y} r={8} fill={tile.color} opacity={0.7} />
+      })}
+
+      {/* Heroes */}
+      {playerPositions.map((position, i) => {
+        const center = getTileCenter(layout, position)
+        return (
+          <circle
+            key={i}
+            cx={center.x}
+            cy={center.y}
+            r={position === currentPosition ? 16 : 12}
+            fill={position === currentPosition ? '#F59E0B' : '#FFFFFF'}
+          />
+        )
+      })}
+
+      {/* Viewport */}
+      <rect
+        x={visibleRect.x}
+        y={visibleRect.y}
+        width={visibleRect.width}
+        height={visibleRect.height}
+        fill="rgba(139, 92, 246, 0.15)"
+        stroke="#8B5CF6"
+        strokeWidth={6}
+      />
+    </svg>
+  )
+}
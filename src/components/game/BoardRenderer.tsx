@@ -1,116 +1,76 @@
-import { useState, useEffect, useRef } from 'react'
+import { useEffect, useMemo, useState, type KeyboardEvent } from 'react'
 import { Button } from '../ui/button'
-import { ZoomIn, ZoomOut, RotateCcw, Target } from 'lucide-react'
-import { blink } from '../../lib/blink'
-
-interface Player {
-  id: string
-  player_number: number
-  character_name: string
-  position: number
-  health: number
-  gold: number
-  avatar: string
-  is_ai: number
-}
-
-interface BoardTile {
-  position: number
-  tile_type: string
-  name: string
-  description: string
-  region: string
-  purchase_price: number
-  rent_price: number
-}
+import { ZoomIn, ZoomOut, RotateCcw, Target, Camera, Footprints, LayoutGrid } from 'lucide-react'
+import { getBoard, getRegionColor } from '../../lib/game/board'
+import { computeLayout, getTileCenter, LAYOUTS, type LayoutId } from '../../lib/game/layout'
+import { useBoardViewport } from '../../hooks/use-board-viewport'
+import { useBoardPreferences } from '../../hooks/use-board-preferences'
+import { useTokenAnimation } from '../../hooks/use-token-animation'
+import BoardMinimap from './BoardMinimap'
+import TileInspector from './TileInspector'
+import type { Player } from '../../lib/game/models'
 
 interface BoardRendererProps {
+  gameId: string
+  boardId: string
   players: Player[]
-  currentPlayer: Player
-  zoom: number
-  center: { x: number; y: number }
-  onZoomIn: () => void
-  onZoomOut: () => void
-  onZoomReset: () => void
-  onCenterPlayer: (position: number) => void
+  // The hero the board highlights; null before anyone has joined
+  currentPlayer: Player | null
 }
 
 export default function BoardRenderer({
+  gameId,
+  boardId,
   players,
-  currentPlayer,
-  zoom,
-  center,
-  onZoomIn,
-  onZoomOut,
-  onZoomReset,
-  onCenterPlayer
+  currentPlayer
 }: BoardRendererProps) {
-  const [tiles, setTiles] = useState<BoardTile[]>([])
   const [hoveredTile, setHoveredTile] = useState<number | null>(null)
-  const boardRef = useRef<HTMLDivElement>(null)
+  const [pinnedTile, setPinnedTile] = useState<number | null>(null)
+  const { preferences, updatePreferences } = useBoardPreferences()
 
-  useEffect(() => {
-    loadTiles()
-  }, [])
+  const board = getBoard(boardId)
+  const tiles = board.tiles
+  const layout = useMemo(() => computeLayout(board.tiles, preferences.layout), [board, preferences.layout])
+  const viewport = useBoardViewport(layout.width, layout.height)
 
-  const loadTiles = async () => {
-    try {
-      const tilesData = await blink.db.board_tiles.list({
-        orderBy: { position: 'asc' }
-      })
-      setTiles(tilesData)
-    } catch (error) {
-      console.error('Failed to load tiles:', error)
-    }
-  }
-
-  // Calculate tile positions in octagonal spiral
-  const getTilePosition = (index: number) => {
-    const centerX = 400
-    const centerY = 375
-    const tileSize = 24
-    const spacing = 28
+  // Tokens are drawn where the animation has got to, not where they are
+  const { displayed, walkingId } = useTokenAnimation(
+    Object.fromEntries(players.map(p => [p.id, p.position])),
+    tiles.length,
+    !preferences.reducedMotion
+  )
+  const walkingPosition = walkingId ? displayed[walkingId] : null
+  const { centerOn, reset } = viewport
 
-    if (index === 0) {
-      // Start tile at center
-      return { x: centerX - 40, y: centerY - 12, width: 80, height: 24 }
+  useEffect(() => {
+    if (preferences.followCamera && walkingPosition !== null) {
+      centerOn(getTileCenter(layout, walkingPosition))
     }
+  }, [walkingPosition, preferences.followCamera]) // eslint-disable-line react-hooks/exhaustive-deps
 
-    // Octagonal spiral calculation
-    const rings = Math.ceil(Math.sqrt(index / 8))
-    const ringStart = 8 * (rings - 1) * rings / 2
-    const posInRing = index - ringStart - 1
-    const sidesPerRing = 8 * rings
-    const tilesPerSide = sidesPerRing / 8
-
-    const side = Math.floor(posInRing / tilesPerSide)
-    const posOnSide = posInRing % tilesPerSide
+  // A new layout changes the board size, so start from the middle again
+  useEffect(() => {
+    reset()
+  }, [layout.id]) // eslint-disable-line react-hooks/exhaustive-deps
 
-    const radius = rings * spacing
-    const angle = (side * Math.PI / 4) + (posOnSide / tilesPerSide) * (Math.PI / 4)
+  const layoutIds = Object.keys(LAYOUTS) as LayoutId[]
+  const nextLayout = layoutIds[(layoutIds.indexOf(layout.id) + 1) % layoutIds.length]
 
-    const x = centerX + Math.cos(angle) * radius - tileSize / 2
-    const y = centerY + Math.sin(angle) * radius - tileSize / 2
+  // A pinned tile keeps the inspector open; otherwise it follows the hover
+  const inspectedPosition = pinnedTile ?? hoveredTile
+  const inspectedTile = inspectedPosition === null ? undefined : tiles.find(t => t.position === inspectedPosition)
 
-    return { x, y, width: tileSize, height: tileSize }
+  const togglePin = (position: number) => {
+    setPinnedTile(prev => (prev === position ? null : position))
   }
 
-  // Get region color
-  const getRegionColor = (region: string) => {
-    const colors = {
-      'Portal': '#F59E0B',
-      'Shadow Forest': '#22C55E',
-      'Cursed Swamp': '#84CC16',
-      'Haunted Graveyard': '#6B7280',
-      'Crystal Caverns': '#06B6D4',
-      'Dragon Mountains': '#EF4444',
-      'Wizard Tower': '#8B5CF6',
-      'Demon Fortress': '#DC2626',
-      'Celestial Gardens': '#F59E0B',
-      'Void Nexus': '#1F2937',
-      'Vampire Castle': '#7C2D12'
+  const handleTileKeyDown = (event: KeyboardEvent, position: number) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault()
+      togglePin(position)
+    } else if (event.key === 'Escape') {
+      setPinnedTile(null)
     }
-    return colors[region as keyof typeof colors] || '#6B7280'
   }
 
   // Get tile type color
@@ -120,14 +80,15 @@ export default function BoardRenderer({
       'property': '#8B5CF6',
       'monster': '#EF4444',
       'treasure': '#F59E0B',
-      'event': '#06B6D4'
+      'event': '#06B6D4',
+      'trap': '#F97316'
     }
     return colors[type as keyof typeof colors] || '#6B7280'
   }
 
-  // Get players on tile
+  // Get players drawn on tile
   const getPlayersOnTile = (position: number) => {
-    return players.filter(p => p.position === position)
+    return players.filter(p => (displayed[p.id] ?? p.position) === position)
   }
 
   return (
@@ -137,7 +98,7 @@ export default function BoardRenderer({
         <Button
           size="sm"
           variant="outline"
-          onClick={onZoomIn}
+          onClick={viewport.zoomIn}
           className="bg-shadow-realm-surface/80 border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/20"
         >
           <ZoomIn className="w-4 h-4" />
@@ -145,7 +106,7 @@ export default function BoardRenderer({
         <Button
           size="sm"
           variant="outline"
-          onClick={onZoomOut}
+          onClick={viewport.zoomOut}
           className="bg-shadow-realm-surface/80 border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/20"
         >
           <ZoomOut className="w-4 h-4" />
@@ -153,7 +114,7 @@ export default function BoardRenderer({
         <Button
           size="sm"
           variant="outline"
-          onClick={onZoomReset}
+          onClick={viewport.reset}
           className="bg-shadow-realm-surface/80 border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/20"
         >
           <RotateCcw className="w-4 h-4" />
@@ -161,27 +122,59 @@ export default function BoardRenderer({
         <Button
           size="sm"
           variant="outline"
-          onClick={() => onCenterPlayer(currentPlayer.position)}
+          onClick={() => currentPlayer && viewport.centerOn(getTileCenter(layout, currentPlayer.position))}
           className="bg-shadow-realm-surface/80 border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/20"
         >
           <Target className="w-4 h-4" />
         </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          title={preferences.followCamera ? 'Camera follows moving heroes' : 'Camera stays put'}
+          onClick={() => updatePreferences({ followCamera: !preferences.followCamera })}
+          className={`bg-shadow-realm-surface/80 border-shadow-realm-purple/30 hover:bg-shadow-realm-purple/20 ${
+            preferences.followCamera ? 'text-shadow-realm-gold' : 'text-shadow-realm-text/50'
+          }`}
+        >
+          <Camera className="w-4 h-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          title={preferences.reducedMotion ? 'Reduced motion: tokens jump' : 'Tokens walk tile by tile'}
+          onClick={() => updatePreferences({ reducedMotion: !preferences.reducedMotion })}
+          className={`bg-shadow-realm-surface/80 border-shadow-realm-purple/30 hover:bg-shadow-realm-purple/20 ${
+            preferences.reducedMotion ? 'text-shadow-realm-text/50' : 'text-shadow-realm-gold'
+          }`}
+        >
+          <Footprints className="w-4 h-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          title={`${LAYOUTS[layout.id].name} layout (switch to ${LAYOUTS[nextLayout].name})`}
+          onClick={() => updatePreferences({ layout: nextLayout })}
+          className="bg-shadow-realm-surface/80 border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/20"
+        >
+          <LayoutGrid className="w-4 h-4" />
+        </Button>
       </div>
 
-      {/* Board Container */}
+      {/* Board Container: drag to pan, wheel or pinch to zoom */}
       <div
-        ref={boardRef}
-        className="w-full h-full flex items-center justify-center"
-        style={{
-          transform: `scale(${zoom}) translate(${center.x}px, ${center.y}px)`,
-          transformOrigin: 'center'
-        }}
+        ref={viewport.containerRef}
+        className="w-full h-full cursor-grab active:cursor-grabbing touch-none select-none"
+        {...viewport.pointerHandlers}
       >
         <svg
-          width="800"
-          height="750"
-          viewBox="0 0 800 750"
-          className="border border-shadow-realm-purple/30 rounded-lg bg-gradient-to-br from-shadow-realm-bg/50 to-shadow-realm-surface/50"
+          width={layout.width}
+          height={layout.height}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          style={{
+            transform: `translate(${viewport.view.x}px, ${viewport.view.y}px) scale(${viewport.view.zoom})`,
+            transformOrigin: '0 0'
+          }}
+          className="absolute top-0 left-0 border border-shadow-realm-purple/30 rounded-lg bg-gradient-to-br from-shadow-realm-bg/50 to-shadow-realm-surface/50"
         >
           {/* Background Pattern */}
           <defs>
@@ -191,39 +184,49 @@ export default function BoardRenderer({
               <circle cx="40" cy="15" r="0.5" fill="rgba(245, 158, 11, 0.2)" />
             </pattern>
           </defs>
-          <rect width="800" height="750" fill="url(#stars)" />
+          <rect width={layout.width} height={layout.height} fill="url(#stars)" />
 
-          {/* Region Labels */}
-          {['Shadow Forest', 'Cursed Swamp', 'Haunted Graveyard', 'Crystal Caverns', 'Dragon Mountains', 
-            'Wizard Tower', 'Demon Fortress', 'Celestial Gardens', 'Void Nexus', 'Vampire Castle'].map((region, i) => {
-            const angle = (i * Math.PI * 2) / 10
-            const radius = 300
-            const x = 400 + Math.cos(angle) * radius
-            const y = 375 + Math.sin(angle) * radius
-            
-            return (
-              <text
-                key={region}
-                x={x}
-                y={y}
-                textAnchor="middle"
-                className="fill-shadow-realm-text/60 text-xs font-cinzel"
-                style={{ fontSize: '10px' }}
-              >
-                {region}
-              </text>
-            )
-          })}
+          {/* Region Zones: a soft halo behind every tile of the region */}
+          {layout.regions.map(region => (
+            <g key={region.name} fill={getRegionColor(board, region.name)} opacity={0.18}>
+              {region.positions.map(position => {
+                const rect = layout.tiles[position]
+                return (
+                  <rect
+                    key={position}
+                    x={rect.x - 6}
+                    y={rect.y - 6}
+                    width={rect.width + 12}
+                    height={rect.height + 12}
+                    rx={6}
+                  />
+                )
+              })}
+            </g>
+          ))}
 
           {/* Tiles */}
           {tiles.map((tile) => {
-            const pos = getTilePosition(tile.position)
+            const pos = layout.tiles[tile.position]
             const playersOnTile = getPlayersOnTile(tile.position)
-            const isHovered = hoveredTile === tile.position
-            const isCurrentPlayer = currentPlayer.position === tile.position
+            const isHovered = hoveredTile === tile.position || pinnedTile === tile.position
+            const isCurrentPlayer = currentPlayer?.position === tile.position
 
             return (
-              <g key={tile.position}>
+              <g
+                key={tile.position}
+                role="button"
+                tabIndex={0}
+                aria-label={`Tile ${tile.position}: ${tile.name}, ${tile.region}`}
+                aria-pressed={pinnedTile === tile.position}
+                className="cursor-pointer focus:outline-none"
+                onClick={() => togglePin(tile.position)}
+                onKeyDown={(event) => handleTileKeyDown(event, tile.position)}
+                onMouseEnter={() => setHoveredTile(tile.position)}
+                onMouseLeave={() => setHoveredTile(null)}
+                onFocus={() => setHoveredTile(tile.position)}
+                onBlur={() => setHoveredTile(null)}
+              >
                 {/* Tile Background */}
                 <rect
                   x={pos.x}
@@ -231,14 +234,12 @@ export default function BoardRenderer({
                   width={pos.width}
                   height={pos.height}
                   fill={getTileTypeColor(tile.tile_type)}
-                  stroke={getRegionColor(tile.region)}
+                  stroke={getRegionColor(board, tile.region)}
                   strokeWidth={isCurrentPlayer ? 3 : 1}
                   rx={tile.position === 0 ? 8 : 2}
                   className={`transition-all duration-200 ${
                     isHovered ? 'opacity-80' : 'opacity-70'
-                  } ${isCurrentPlayer ? 'animate-glow' : ''}`}
-                  onMouseEnter={() => setHoveredTile(tile.position)}
-                  onMouseLeave={() => setHoveredTile(null)}
+                  } ${isCurrentPlayer && !preferences.reducedMotion ? 'animate-glow' : ''}`}
                 />
 
                 {/* Tile Number */}
@@ -276,7 +277,7 @@ export default function BoardRenderer({
                     stroke="#F59E0B"
                     strokeWidth="2"
                     rx={tile.position === 0 ? 10 : 4}
-                    className="animate-pulse"
+                    className={preferences.reducedMotion ? '' : 'animate-pulse'}
                   />
                 )}
               </g>
@@ -285,8 +286,8 @@ export default function BoardRenderer({
 
           {/* Connection Lines */}
           {tiles.slice(0, -1).map((tile, i) => {
-            const pos1 = getTilePosition(tile.position)
-            const pos2 = getTilePosition(tiles[i + 1]?.position || 0)
+            const pos1 = layout.tiles[tile.position]
+            const pos2 = layout.tiles[tiles[i + 1]?.position || 0]
             
             return (
               <line
@@ -301,32 +302,50 @@ export default function BoardRenderer({
               />
             )
           })}
+
+          {/* Region Labels, anchored to their tiles and drawn over them */}
+          {layout.regions.map(region => (
+            <text
+              key={region.name}
+              x={region.label.x}
+              y={region.label.y}
+              textAnchor="middle"
+              stroke="rgba(0, 0, 0, 0.6)"
+              strokeWidth={3}
+              paintOrder="stroke"
+              fill={getRegionColor(board, region.name)}
+              className="font-cinzel pointer-events-none"
+              style={{ fontSize: '10px' }}
+            >
+              {region.name}
+            </text>
+          ))}
         </svg>
       </div>
 
-      {/* Tile Tooltip */}
-      {hoveredTile !== null && (
-        <div className="absolute bottom-4 left-4 bg-shadow-realm-surface/90 border border-shadow-realm-purple/30 rounded-lg p-3 max-w-xs z-10">
-          {tiles.find(t => t.position === hoveredTile) && (
-            <div className="text-shadow-realm-text">
-              <h3 className="font-semibold text-shadow-realm-gold">
-                {tiles.find(t => t.position === hoveredTile)?.name}
-              </h3>
-              <p className="text-sm text-shadow-realm-text/80 mb-2">
-                {tiles.find(t => t.position === hoveredTile)?.description}
-              </p>
-              <div className="flex justify-between text-xs">
-                <span className="text-shadow-realm-text/60">
-                  {tiles.find(t => t.position === hoveredTile)?.region}
-                </span>
-                {tiles.find(t => t.position === hoveredTile)?.purchase_price > 0 && (
-                  <span className="text-shadow-realm-gold">
-                    {tiles.find(t => t.position === hoveredTile)?.purchase_price} gold
-                  </span>
-                )}
-              </div>
-            </div>
-          )}
+      {/* Minimap */}
+      <div className="absolute bottom-4 right-4 z-10">
+        <BoardMinimap
+          layout={layout}
+          tiles={tiles.map(t => ({ position: t.position, color: getRegionColor(board, t.region) }))}
+          playerPositions={players.map(p => p.position)}
+          currentPosition={currentPlayer?.position ?? null}
+          visibleRect={viewport.visibleRect}
+          onNavigate={(point) => viewport.centerOn(point)}
+        />
+      </div>
+
+      {/* Tile Inspector */}
+      {inspectedTile && (
+        <div className="absolute bottom-4 left-4 z-10">
+          <TileInspector
+            gameId={gameId}
+            board={board}
+            tile={inspectedTile}
+            players={players}
+            pinned={pinnedTile === inspectedTile.position}
+            onClose={() => setPinnedTile(null)}
+          />
         </div>
       )}
     </div>
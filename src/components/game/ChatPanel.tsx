@@ -1,34 +1,22 @@
 import { useState, useEffect, useRef } from 'react'
-import { blink } from '../../lib/blink'
 import { Button } from '../ui/button'
 import { Input } from '../ui/input'
 import { ScrollArea } from '../ui/scroll-area'
 import { Send, MessageSquare } from 'lucide-react'
 import { toast } from 'sonner'
-
-interface ChatMessage {
-  id: string
-  game_id: string
-  user_id: string | null
-  player_id: string | null
-  message_type: string
-  content: string
-  metadata: string
-  created_at: string
-}
-
-interface Player {
-  id: string
-  character_name: string
-  avatar: string
-}
+import { notifyGameChanged } from '../../lib/game/sync'
+import { useGameSync } from '../../hooks/use-game-sync'
+import { appendMessage, listMessages } from '../../lib/game/repository'
+import type { ChatMessage, Player } from '../../lib/game/models'
 
 interface ChatPanelProps {
   gameId: string
-  currentPlayer: Player
+  // Null for spectators, who talk among themselves
+  currentPlayer: Player | null
+  user: { id: string; email?: string }
 }
 
-export default function ChatPanel({ gameId, currentPlayer }: ChatPanelProps) {
+export default function ChatPanel({ gameId, currentPlayer, user }: ChatPanelProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [newMessage, setNewMessage] = useState('')
   const [loading, setLoading] = useState(true)
@@ -36,10 +24,10 @@ export default function ChatPanel({ gameId, currentPlayer }: ChatPanelProps) {
 
   useEffect(() => {
     loadMessages()
-    const interval = setInterval(loadMessages, 3000) // Poll for new messages
-    return () => clearInterval(interval)
   }, [gameId]) // eslint-disable-line react-hooks/exhaustive-deps
 
+  useGameSync(gameId, ['chat'], () => loadMessages())
+
   useEffect(() => {
     // Auto-scroll to bottom when new messages arrive
     if (scrollRef.current) {
@@ -49,12 +37,9 @@ export default function ChatPanel({ gameId, currentPlayer }: ChatPanelProps) {
 
   const loadMessages = async () => {
     try {
-      const messagesData = await blink.db.chat_messages.list({
-        where: { game_id: gameId },
-        orderBy: { created_at: 'asc' },
-        limit: 100
-      })
-      setMessages(messagesData)
+      // The latest hundred, oldest at the top; spectator chat stays out of
+      // the players' feed
+      setMessages((await listMessages(gameId, 100, !currentPlayer)).reverse())
     } catch (error) {
       console.error('Failed to load messages:', error)
     } finally {
@@ -66,18 +51,19 @@ export default function ChatPanel({ gameId, currentPlayer }: ChatPanelProps) {
     if (!newMessage.trim()) return
 
     try {
-      await blink.db.chat_messages.create({
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      await appendMessage({
         game_id: gameId,
-        user_id: currentPlayer.id,
-        player_id: currentPlayer.id,
-        message_type: 'player',
+        user_id: currentPlayer ? currentPlayer.id : user.id,
+        player_id: currentPlayer ? currentPlayer.id : null,
+        message_type: currentPlayer ? 'player' : 'spectator',
         content: newMessage.trim(),
-        metadata: JSON.stringify({ character_name: currentPlayer.character_name })
+        metadata: currentPlayer
+          ? { character_name: currentPlayer.character_name }
+          : { spectator_name: user.email?.split('@')[0] || 'Spectator' }
       })
 
       setNewMessage('')
-      loadMessages() // Refresh messages
+      await notifyGameChanged(gameId, 'chat')
     } catch (error) {
       console.error('Failed to send message:', error)
       toast.error('Failed to send message')
@@ -89,7 +75,8 @@ export default function ChatPanel({ gameId, currentPlayer }: ChatPanelProps) {
       narrator: 'bg-shadow-realm-purple/20 border-l-4 border-shadow-realm-purple text-shadow-realm-text italic',
       system: 'bg-shadow-realm-gold/20 border-l-4 border-shadow-realm-gold text-shadow-realm-text',
       player: 'bg-shadow-realm-surface border-l-4 border-blue-500 text-shadow-realm-text',
-      action: 'bg-green-500/20 border-l-4 border-green-500 text-shadow-realm-text'
+      action: 'bg-green-500/20 border-l-4 border-green-500 text-shadow-realm-text',
+      spectator: 'bg-shadow-realm-bg/50 border-l-4 border-shadow-realm-text/30 text-shadow-realm-text/80'
     }
     return styles[type as keyof typeof styles] || styles.system
   }
@@ -99,54 +86,53 @@ export default function ChatPanel({ gameId, currentPlayer }: ChatPanelProps) {
       narrator: '🎭',
       system: '⚙️',
       player: '💬',
-      action: '⚔️'
+      action: '⚔️',
+      spectator: '👁️'
     }
     return icons[type as keyof typeof icons] || '💬'
   }
 
   const formatMessage = (message: ChatMessage) => {
-    try {
-      const metadata = JSON.parse(message.metadata || '{}')
-      const characterName = metadata.character_name || 'Unknown'
-      
-      switch (message.message_type) {
-        case 'narrator':
-          return {
-            sender: 'Game Master',
-            content: message.content,
-            avatar: '🎭'
-          }
-        case 'system':
-          return {
-            sender: 'System',
-            content: message.content,
-            avatar: '⚙️'
-          }
-        case 'player':
-          return {
-            sender: characterName,
-            content: message.content,
-            avatar: '💬'
-          }
-        case 'action':
-          return {
-            sender: 'Action',
-            content: message.content,
-            avatar: '⚔️'
-          }
-        default:
-          return {
-            sender: 'Unknown',
-            content: message.content,
-            avatar: '❓'
-          }
-      }
-    } catch {
-      return {
-        sender: 'Unknown',
-        content: message.content,
-        avatar: '❓'
-      }
+    const metadata = message.metadata
+    const characterName = metadata.character_name || 'Unknown'
+
+    switch (message.message_type) {
+      case 'narrator':
+        return {
+          sender: 'Game Master',
+          content: message.content,
+          avatar: '🎭'
+        }
+      case 'system':
+        return {
+          sender: 'System',
+          content: message.content,
+          avatar: '⚙️'
+        }
+      case 'player':
+        return {
+          sender: characterName,
+          content: message.content,
+          avatar: '💬'
+        }
+      case 'action':
+        return {
+          sender: 'Action',
+          content: message.content,
+          avatar: '⚔️'
+        }
+      case 'spectator':
+        return {
+          sender: `${metadata.spectator_name || 'Spectator'} (watching)`,
+          content: message.content,
+          avatar: '👁️'
+        }
+      default:
+        return {
+          sender: 'Unknown',
+          content: message.content,
+          avatar: '❓'
+        }
     }
   }
 
@@ -164,7 +150,7 @@ export default function ChatPanel({ gameId, currentPlayer }: ChatPanelProps) {
       <div className="p-3 border-b border-shadow-realm-purple/30 bg-shadow-realm-surface">
         <h3 className="text-sm font-semibold text-shadow-realm-gold flex items-center gap-2">
           <MessageSquare className="w-4 h-4" />
-          Game Chat & Narration
+          {currentPlayer ? 'Game Chat & Narration' : 'Narration & Spectator Chat'}
         </h3>
       </div>
 
@@ -211,7 +197,7 @@ export default function ChatPanel({ gameId, currentPlayer }: ChatPanelProps) {
       <div className="p-3 border-t border-shadow-realm-purple/30 bg-shadow-realm-surface">
         <div className="flex gap-2">
           <Input
-            placeholder="Type a message..."
+            placeholder={currentPlayer ? 'Type a message...' : 'Chat with other spectators...'}
             value={newMessage}
             onChange={(e) => setNewMessage(e.target.value)}
             onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
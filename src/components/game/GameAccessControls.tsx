@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog'
+import { Check, Link, UserPlus, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { getInviteLink, listPendingJoinRequests, respondToJoinRequest } from '../../lib/game/access'
+import { useGameSync } from '../../hooks/use-game-sync'
+import type { Game, JoinRequest } from '../../lib/game/models'
+
+interface GameAccessControlsProps {
+  game: Game
+  isHost: boolean
+}
+
+// Invite code for everyone at the table; join requests for the host
+export default function GameAccessControls({ game, isHost }: GameAccessControlsProps) {
+  const [requests, setRequests] = useState<JoinRequest[]>([])
+  const reviewsRequests = isHost && game.require_approval && game.status !== 'finished'
+
+  const loadRequests = async () => {
+    try {
+      setRequests(await listPendingJoinRequests(game.id))
+    } catch (error) {
+      console.error('Failed to load join requests:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (reviewsRequests) loadRequests()
+  }, [game.id, reviewsRequests]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useGameSync(reviewsRequests ? game.id : null, ['access'], () => loadRequests())
+
+  const copyInviteLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(game.invite_code))
+      toast.success('Invite link copied')
+    } catch (error) {
+      console.error('Failed to copy invite link:', error)
+      toast.error(`Invite code: ${game.invite_code}`)
+    }
+  }
+
+  const respond = async (request: JoinRequest, approved: boolean) => {
+    try {
+      await respondToJoinRequest(request, approved)
+      setRequests(prev => prev.filter(r => r.id !== request.id))
+    } catch (error) {
+      console.error('Failed to answer join request:', error)
+      toast.error('Failed to answer join request')
+    }
+  }
+
+  if (!game.invite_code) return null
+
+  return (
+    <div className="flex items-center gap-2">
+      <Badge variant="outline" className="border-shadow-realm-purple/30 text-shadow-realm-text font-mono tracking-widest">
+        {game.invite_code}
+      </Badge>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={copyInviteLink}
+        title="Copy invite link"
+        className="border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
+      >
+        <Link className="w-4 h-4" />
+      </Button>
+
+      {reviewsRequests && (
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className={`border-shadow-realm-purple/30 hover:bg-shadow-realm-purple/10 ${
+                requests.length > 0 ? 'text-shadow-realm-gold' : 'text-shadow-realm-text'
+              }`}
+            >
+              <UserPlus className="w-4 h-4 mr-1" />
+              {requests.length}
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-shadow-realm-surface border-shadow-realm-purple/30">
+            <DialogHeader>
+              <DialogTitle className="text-shadow-realm-gold">Join Requests</DialogTitle>
+              <DialogDescription className="text-shadow-realm-text/70">
+                Heroes asking for a seat at your table
+              </DialogDescription>
+            </DialogHeader>
+            {requests.length === 0 ? (
+              <p className="text-sm text-shadow-realm-text/60 text-center">No one is waiting</p>
+            ) : (
+              <div className="space-y-2">
+                {requests.map(request => (
+                  <div key={request.id} className="flex items-center justify-between p-2 rounded bg-shadow-realm-bg/50">
+                    <span className="text-sm text-shadow-realm-text">{request.user_name}</span>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => respond(request, true)}
+                        className="bg-shadow-realm-purple hover:bg-purple-600 text-white"
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Admit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => respond(request, false)}
+                        className="border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Decline
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  )
+}
@@ -4,34 +4,25 @@ import BoardRenderer from './BoardRenderer'
 import ChatPanel from './ChatPanel'
 import PlayerPanel from './PlayerPanel'
 import TurnControls from './TurnControls'
+import GameSummary from './GameSummary'
+import GameAccessControls from './GameAccessControls'
 import { Button } from '../ui/button'
-import { ArrowLeft, Zap } from 'lucide-react'
+import { ArrowLeft, Eye, LogOut, Zap } from 'lucide-react'
 import { toast } from 'sonner'
-
-interface Player {
-  id: string
-  game_id: string
-  user_id: string
-  player_number: number
-  character_name: string
-  character_class: string
-  position: number
-  health: number
-  gold: number
-  inventory: string
-  properties: string
-  is_ai: number
-  avatar: string
-}
-
-interface Game {
-  id: string
-  name: string
-  status: string
-  current_turn: number
-  current_player: number
-  adventure_story: string
-}
+import { fillAiSeats, type AiDifficulty, type AiPersonality } from '../../lib/game/ai'
+import { useAiTurns } from '../../hooks/use-ai-turns'
+import { usePresence } from '../../hooks/use-presence'
+import { useGameSync } from '../../hooks/use-game-sync'
+import { notifyGameChanged, notifyLobbyChanged } from '../../lib/game/sync'
+import { getBoard } from '../../lib/game/board'
+import { getQuestCandidates, pickQuestTile } from '../../lib/game/victory'
+import { narrateAdventureLocally, withTimeout } from '../../lib/game/narrator'
+import { rollForGame } from '../../lib/game/persistence'
+import { MIN_PLAYERS } from '../../lib/game/settings'
+import { isListedGame } from '../../lib/game/access'
+import { leaveGame, SeatError } from '../../lib/game/seats'
+import { appendMessage, getGame, listPlayers, updateGame } from '../../lib/game/repository'
+import type { Game, Player } from '../../lib/game/models'
 
 interface GameBoardProps {
   gameId: string
@@ -44,9 +35,8 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
   const [players, setPlayers] = useState<Player[]>([])
   const [currentPlayer, setCurrentPlayer] = useState<Player | null>(null)
   const [loading, setLoading] = useState(true)
-  const [boardZoom, setBoardZoom] = useState(1)
-  const [boardCenter, setBoardCenter] = useState({ x: 0, y: 0 })
   const [generatingAdventure, setGeneratingAdventure] = useState(false)
+  const [startingGame, setStartingGame] = useState(false)
 
   useEffect(() => {
     loadGameData()
@@ -54,13 +44,7 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
 
   const loadGameData = async () => {
     try {
-      // Load game - get all games and filter in memory to avoid SQL issues
-      const allGames = await blink.db.games.list({
-        orderBy: { created_at: 'desc' },
-        limit: 50
-      })
-      
-      const gameInfo = allGames.find(g => g.id === gameId)
+      const gameInfo = await getGame(gameId)
       if (!gameInfo) {
         toast.error('Game not found')
         onExitGame()
@@ -69,25 +53,13 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
 
       setGame(gameInfo)
 
-      // Load players
-      const allPlayers = await blink.db.players.list({
-        orderBy: { player_number: 'asc' },
-        limit: 100
-      })
-      
-      // Filter players for this game
-      const playersData = allPlayers.filter(p => p.game_id === gameId)
+      const playersData = await listPlayers(gameId)
       setPlayers(playersData)
 
       // Find current user's player
       const userPlayer = playersData.find(p => p.user_id === user.id)
       setCurrentPlayer(userPlayer || null)
 
-      // Generate adventure if not exists
-      if (!gameInfo.adventure_story && playersData.length > 0) {
-        await generateAdventure(gameInfo, playersData)
-      }
-
     } catch (error) {
       console.error('Failed to load game data:', error)
       toast.error('Failed to load game data')
@@ -100,38 +72,60 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
     setGeneratingAdventure(true)
     try {
       const playerNames = playersData.map(p => p.character_name).join(', ')
+      const tiles = getBoard(gameInfo.settings.board_id).tiles
+      const candidates = getQuestCandidates(tiles)
+      const questRoll = candidates.length > 0
+        ? await rollForGame(gameId, { purpose: 'quest', count: 1, sides: candidates.length, stream: 'quest' })
+        : null
+      const questTile = questRoll ? pickQuestTile(tiles, questRoll.values[0]) : undefined
       
-      const { text: adventure } = await blink.ai.generateText({
-        prompt: `Create an epic D&D adventure story for a board game called "${gameInfo.name}". 
-        The players are: ${playerNames}. 
-        This should be a mystical adventure in the Shadow Realm with 10 different regions: 
-        Shadow Forest, Cursed Swamp, Haunted Graveyard, Crystal Caverns, Dragon Mountains, 
-        Wizard Tower, Demon Fortress, Celestial Gardens, Void Nexus, and Vampire Castle.
+      let adventure: string
+      try {
+        const { text } = await withTimeout(blink.ai.generateText({
+          prompt: `Create an epic D&D adventure story for a board game called "${gameInfo.name}". 
+          The players are: ${playerNames}. 
+          This should be a mystical adventure in the Shadow Realm with 10 different regions: 
+          Shadow Forest, Cursed Swamp, Haunted Graveyard, Crystal Caverns, Dragon Mountains, 
+          Wizard Tower, Demon Fortress, Celestial Gardens, Void Nexus, and Vampire Castle.
         
-        Write a compelling 2-3 paragraph adventure hook that sets up the story and explains 
-        why the heroes are traveling through these dangerous lands. Make it exciting and 
-        mysterious, suitable for a fantasy board game adventure.`,
-        maxTokens: 300
-      })
+          Write a compelling 2-3 paragraph adventure hook that sets up the story and explains 
+          why the heroes are traveling through these dangerous lands. Make it exciting and 
+          mysterious, suitable for a fantasy board game adventure.
+          ${questTile ? `The heroes' quest is to conquer ${questTile.name} in the ${questTile.region}; make that the goal of the story.` : ''}`,
+          maxTokens: 300
+        }))
+        adventure = text
+      } catch (error) {
+        // The adventure still begins, told by the local narrator
+        console.error('Failed to generate adventure, narrating locally:', error)
+        adventure = narrateAdventureLocally(gameInfo.name, playersData.map(p => p.character_name), questTile)
+      }
+
+      // Seats can be left empty by heroes who walked away, so the first
+      // turn goes to the lowest seat actually taken
+      const firstSeat = Math.min(...playersData.map(p => p.player_number))
 
       // Update game with adventure
-      await blink.db.games.update(gameId, {
+      await updateGame(gameId, {
         adventure_story: adventure,
-        status: 'active'
+        quest_position: questTile?.position ?? null,
+        status: 'active',
+        current_player: firstSeat,
+        turn_started_at: Date.now()
       })
 
       // Add initial narration message
-      await blink.db.chat_messages.create({
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      await appendMessage({
         game_id: gameId,
-        user_id: null,
         player_id: null,
         message_type: 'narrator',
         content: adventure,
-        metadata: '{}'
+        metadata: {}
       })
 
-      setGame(prev => prev ? { ...prev, adventure_story: adventure, status: 'active' } : null)
+      setGame(prev => prev ? { ...prev, adventure_story: adventure, status: 'active', current_player: firstSeat } : null)
+      await notifyGameChanged(gameId, 'game', 'chat')
+      await notifyLobbyChanged()
       toast.success('Adventure generated! The game begins...')
 
     } catch (error) {
@@ -142,25 +136,55 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
     }
   }
 
-  const handleZoomIn = () => {
-    setBoardZoom(prev => Math.min(prev + 0.2, 2))
-  }
+  // Host-only: seat AI heroes in the empty places (if the settings allow)
+  // and begin the adventure
+  const startGame = async (difficulty: AiDifficulty, personality: AiPersonality) => {
+    if (!game || game.host_user_id !== user.id) return
 
-  const handleZoomOut = () => {
-    setBoardZoom(prev => Math.max(prev - 0.2, 0.5))
-  }
+    const settings = game.settings
+    if (!settings.ai_fill && players.length < MIN_PLAYERS) {
+      toast.error(`At least ${MIN_PLAYERS} heroes are needed to start`)
+      return
+    }
 
-  const handleZoomReset = () => {
-    setBoardZoom(1)
-    setBoardCenter({ x: 0, y: 0 })
+    setStartingGame(true)
+    try {
+      if (settings.ai_fill) {
+        await fillAiSeats(gameId, settings, personality)
+      }
+      await updateGame(gameId, { ai_difficulty: difficulty })
+      await generateAdventure(game, await listPlayers(gameId))
+      await loadGameData()
+    } catch (error) {
+      console.error('Failed to start game:', error)
+      toast.error('Failed to start game')
+    } finally {
+      setStartingGame(false)
+    }
   }
 
-  const centerOnPlayer = (position: number) => {
-    // Calculate board position for centering
-    // This will be implemented in BoardRenderer
-    setBoardCenter({ x: 0, y: 0 })
+  // Gives up the seat before the adventure starts so someone else can take it
+  const leaveSeat = async () => {
+    if (!game || !currentPlayer) return
+
+    try {
+      await leaveGame(game, currentPlayer)
+      toast.success('You left the game')
+      onExitGame()
+    } catch (error) {
+      if (error instanceof SeatError) {
+        toast.error(error.message)
+        return
+      }
+      console.error('Failed to leave game:', error)
+      toast.error('Failed to leave game')
+    }
   }
 
+  useGameSync(gameId, ['game', 'players'], () => loadGameData())
+  useAiTurns(game, players, user.id, loadGameData)
+  usePresence(gameId, currentPlayer?.id ?? null, user.id, game?.status === 'active')
+
   if (loading) {
     return (
       <div className="min-h-screen bg-shadow-realm-bg flex items-center justify-center">
@@ -171,12 +195,16 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
     )
   }
 
-  if (!game || !currentPlayer) {
+  // Users without a hero in the game watch it read-only, if it is public
+  const spectating = !currentPlayer
+  const canWatch = game !== null && (isListedGame(game) || game.host_user_id === user.id)
+
+  if (!game || (spectating && !canWatch)) {
     return (
       <div className="min-h-screen bg-shadow-realm-bg flex items-center justify-center">
         <div className="text-center text-shadow-realm-text">
           <h2 className="text-2xl font-cinzel mb-4">Game Error</h2>
-          <p className="mb-6">Unable to load game data</p>
+          <p className="mb-6">{game ? 'This game is private' : 'Unable to load game data'}</p>
           <Button onClick={onExitGame} variant="outline">
             Return to Lobby
           </Button>
@@ -185,6 +213,10 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
     )
   }
 
+  if (game.status === 'finished') {
+    return <GameSummary game={game} players={players} currentPlayer={currentPlayer} onExitGame={onExitGame} />
+  }
+
   return (
     <div className="min-h-screen bg-shadow-realm-bg text-shadow-realm-text flex flex-col">
       {/* Header */}
@@ -199,6 +231,17 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
             <ArrowLeft className="w-4 h-4 mr-2" />
             Exit Game
           </Button>
+          {currentPlayer && game.status === 'waiting' && game.host_user_id !== user.id && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={leaveSeat}
+              className="border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Leave Game
+            </Button>
+          )}
           <div>
             <h1 className="text-xl font-cinzel text-shadow-realm-gold">{game.name}</h1>
             <p className="text-sm text-shadow-realm-text/70">
@@ -213,6 +256,15 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
             <span className="text-sm">AI Game Master is crafting your adventure...</span>
           </div>
         )}
+
+        {spectating ? (
+          <div className="flex items-center gap-2 text-shadow-realm-text/70">
+            <Eye className="w-4 h-4" />
+            <span className="text-sm">Spectating</span>
+          </div>
+        ) : (
+          <GameAccessControls game={game} isHost={game.host_user_id === user.id} />
+        )}
       </header>
 
       {/* Main Game Area */}
@@ -220,14 +272,10 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
         {/* Left Panel - Game Board (60%) */}
         <div className="w-3/5 relative bg-gradient-to-br from-shadow-realm-bg to-shadow-realm-surface">
           <BoardRenderer
+            gameId={game.id}
+            boardId={game.settings.board_id}
             players={players}
-            currentPlayer={currentPlayer}
-            zoom={boardZoom}
-            center={boardCenter}
-            onZoomIn={handleZoomIn}
-            onZoomOut={handleZoomOut}
-            onZoomReset={handleZoomReset}
-            onCenterPlayer={centerOnPlayer}
+            currentPlayer={currentPlayer ?? players.find(p => p.player_number === game.current_player) ?? null}
           />
         </div>
 
@@ -235,7 +283,7 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
         <div className="w-2/5 flex flex-col bg-shadow-realm-surface border-l border-shadow-realm-purple/30">
           {/* Chat Panel (40% of right panel) */}
           <div className="h-2/5 border-b border-shadow-realm-purple/30">
-            <ChatPanel gameId={gameId} currentPlayer={currentPlayer} />
+            <ChatPanel gameId={gameId} currentPlayer={currentPlayer} user={user} />
           </div>
 
           {/* Player Panel (35% of right panel) */}
@@ -244,17 +292,32 @@ export default function GameBoard({ gameId, user, onExitGame }: GameBoardProps)
               players={players}
               currentPlayer={currentPlayer}
               gameCurrentPlayer={game.current_player}
+              gameStatus={game.status}
+              settings={game.settings}
+              isHost={game.host_user_id === user.id}
+              starting={startingGame || generatingAdventure}
+              onStartGame={startGame}
             />
           </div>
 
           {/* Turn Controls (25% of right panel) */}
           <div className="flex-1">
-            <TurnControls
-              game={game}
-              currentPlayer={currentPlayer}
-              players={players}
-              onGameUpdate={loadGameData}
-            />
+            {currentPlayer ? (
+              <TurnControls
+                game={game}
+                currentPlayer={currentPlayer}
+                players={players}
+                onGameUpdate={loadGameData}
+              />
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center gap-2 p-4 text-center text-shadow-realm-text/60">
+                <Eye className="w-6 h-6" />
+                <p className="text-sm">You are watching this adventure.</p>
+                <p className="text-xs">
+                  {players.find(p => p.player_number === game.current_player)?.character_name ?? `Player ${game.current_player}`} is taking their turn
+                </p>
+              </div>
+            )}
           </div>
         </div>
       </div>
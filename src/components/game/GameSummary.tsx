@@ -0,0 +1,119 @@
+import { toEngineState } from '../../lib/game/persistence'
+import { getStandings } from '../../lib/game/victory'
+import RollLog from './RollLog'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Badge } from '../ui/badge'
+import { ArrowLeft, Crown, Scroll, Skull, Trophy } from 'lucide-react'
+import type { Game, Player } from '../../lib/game/models'
+
+interface GameSummaryProps {
+  game: Game
+  players: Player[]
+  currentPlayer: Player | null
+  onExitGame: () => void
+}
+
+export default function GameSummary({ game, players, currentPlayer, onExitGame }: GameSummaryProps) {
+  const standings = getStandings(toEngineState(game, players))
+  const winner = players.find(p => p.id === game.winner_id)
+  const avatarFor = (playerId: string) => players.find(p => p.id === playerId)?.avatar
+
+  return (
+    <div className="min-h-screen bg-shadow-realm-bg text-shadow-realm-text p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onExitGame}
+            className="border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Return to Lobby
+          </Button>
+          <div className="text-sm text-shadow-realm-text/70">
+            {game.name} • {game.current_turn} turns
+          </div>
+        </div>
+
+        {/* Winner */}
+        <div className="text-center space-y-2">
+          <Trophy className="w-12 h-12 mx-auto text-shadow-realm-gold" />
+          <h1 className="text-3xl font-cinzel text-shadow-realm-gold">
+            {winner ? `${winner.character_name} Triumphs!` : 'The Adventure Is Over'}
+          </h1>
+          {winner && winner.id === currentPlayer?.id && (
+            <Badge className="bg-shadow-realm-purple text-white">Victory is yours</Badge>
+          )}
+        </div>
+
+        {/* Epilogue */}
+        <Card className="bg-shadow-realm-surface/50 border-shadow-realm-purple/30">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm text-shadow-realm-gold flex items-center gap-2">
+              <Scroll className="w-4 h-4" />
+              Epilogue
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm leading-relaxed text-shadow-realm-text/90">
+              {game.epilogue || 'The Game Master is writing the final chapter...'}
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Final Standings */}
+        <Card className="bg-shadow-realm-surface/50 border-shadow-realm-purple/30">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm text-shadow-realm-gold flex items-center gap-2">
+              <Crown className="w-4 h-4" />
+              Final Standings
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {standings.map(({ player, propertyValue, netWorth }, index) => (
+              <div
+                key={player.id}
+                className={`flex items-center gap-3 p-3 rounded bg-shadow-realm-bg/50 ${
+                  player.id === game.winner_id ? 'ring-2 ring-shadow-realm-gold/50' : ''
+                }`}
+              >
+                <div className="w-6 text-center font-bold text-shadow-realm-gold">{index + 1}</div>
+                <span className="text-lg">{avatarFor(player.id)}</span>
+                <div className="flex-1">
+                  <div className="text-sm font-medium flex items-center gap-2">
+                    {player.character_name}
+                    {player.status === 'eliminated' && <Skull className="w-3 h-3 text-red-400" />}
+                  </div>
+                  <div className="text-xs text-shadow-realm-text/60">{player.character_class}</div>
+                </div>
+                <div className="grid grid-cols-4 gap-4 text-xs text-center">
+                  <div>
+                    <div className="text-shadow-realm-text/60">Gold</div>
+                    <div className="text-shadow-realm-gold font-medium">{player.gold}</div>
+                  </div>
+                  <div>
+                    <div className="text-shadow-realm-text/60">Props</div>
+                    <div className="font-medium">{player.properties.length} ({propertyValue})</div>
+                  </div>
+                  <div>
+                    <div className="text-shadow-realm-text/60">Knockouts</div>
+                    <div className="font-medium">{player.knockouts}</div>
+                  </div>
+                  <div>
+                    <div className="text-shadow-realm-text/60">Worth</div>
+                    <div className="text-shadow-realm-gold font-medium">{netWorth}</div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <RollLog game={game} />
+      </div>
+    </div>
+  )
+}
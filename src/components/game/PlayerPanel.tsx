@@ -2,45 +2,67 @@ import { Badge } from '../ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
 import { Progress } from '../ui/progress'
 import { ScrollArea } from '../ui/scroll-area'
-import { Heart, Coins, Crown, Bot } from 'lucide-react'
-
-interface Player {
-  id: string
-  player_number: number
-  character_name: string
-  character_class: string
-  position: number
-  health: number
-  gold: number
-  inventory: string
-  properties: string
-  is_ai: number
-  avatar: string
-}
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Heart, Coins, Crown, Bot, Play } from 'lucide-react'
+import { AI_DIFFICULTIES, AI_PERSONALITIES, type AiDifficulty, type AiPersonality } from '../../lib/game/ai'
+import { getItem } from '../../lib/game/items'
+import { MIN_PLAYERS } from '../../lib/game/settings'
+import type { Player } from '../../lib/game/models'
+import type { GameSettings } from '../../lib/game/types'
 
 interface PlayerPanelProps {
   players: Player[]
-  currentPlayer: Player
+  // Null for spectators
+  currentPlayer: Player | null
   gameCurrentPlayer: number
+  gameStatus: string
+  settings: GameSettings
+  isHost: boolean
+  starting: boolean
+  onStartGame: (difficulty: AiDifficulty, personality: AiPersonality) => void
 }
 
-export default function PlayerPanel({ players, currentPlayer, gameCurrentPlayer }: PlayerPanelProps) {
-  const getInventoryItems = (inventoryJson: string) => {
-    try {
-      return JSON.parse(inventoryJson) || []
-    } catch {
-      return []
-    }
-  }
+export default function PlayerPanel({
+  players,
+  currentPlayer,
+  gameCurrentPlayer,
+  gameStatus,
+  settings,
+  isHost,
+  starting,
+  onStartGame
+}: PlayerPanelProps) {
+  const [aiDifficulty, setAiDifficulty] = useState<AiDifficulty>('normal')
+  const [aiPersonality, setAiPersonality] = useState<AiPersonality>('balanced')
+  const openSeats = settings.max_players - players.length
+  const aiSeats = settings.ai_fill ? openSeats : 0
+  const canStart = settings.ai_fill || players.length >= MIN_PLAYERS
 
-  const getProperties = (propertiesJson: string) => {
-    try {
-      return JSON.parse(propertiesJson) || []
-    } catch {
-      return []
+  const getInventoryItems = (inventory: string[]) => inventory.map(id => getItem(id)!)
+
+  const getStatusBadge = (status: string) => {
+    if (status === 'downed') {
+      return (
+        <Badge variant="secondary" className="bg-red-500/20 text-red-400 text-xs">
+          Downed
+        </Badge>
+      )
+    }
+    if (status === 'eliminated') {
+      return (
+        <Badge variant="secondary" className="bg-shadow-realm-text/20 text-shadow-realm-text/60 text-xs">
+          Eliminated
+        </Badge>
+      )
     }
+    return null
   }
 
+  // Health as a share of the game's maximum
+  const toPercent = (health: number) => Math.round((health / settings.starting_health) * 100)
+
   const getHealthColor = (health: number) => {
     if (health >= 80) return 'bg-green-500'
     if (health >= 50) return 'bg-yellow-500'
@@ -60,94 +82,99 @@ export default function PlayerPanel({ players, currentPlayer, gameCurrentPlayer
 
       <ScrollArea className="flex-1">
         <div className="p-3 space-y-3">
-          {/* Current Player Details */}
-          <Card className="bg-shadow-realm-bg/50 border-shadow-realm-purple/30">
-            <CardHeader className="pb-2">
-              <CardTitle className="text-sm text-shadow-realm-gold flex items-center gap-2">
-                <span className="text-lg">{currentPlayer.avatar}</span>
-                {currentPlayer.character_name}
-                <Badge variant="secondary" className="bg-shadow-realm-purple/20 text-shadow-realm-purple text-xs">
-                  You
-                </Badge>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              {/* Health */}
-              <div className="space-y-1">
+          {/* Current Player Details (spectators have none) */}
+          {currentPlayer && (
+            <Card className="bg-shadow-realm-bg/50 border-shadow-realm-purple/30">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm text-shadow-realm-gold flex items-center gap-2">
+                  <span className="text-lg">{currentPlayer.avatar}</span>
+                  {currentPlayer.character_name}
+                  <Badge variant="secondary" className="bg-shadow-realm-purple/20 text-shadow-realm-purple text-xs">
+                    You
+                  </Badge>
+                  {getStatusBadge(currentPlayer.status)}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {/* Health */}
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="flex items-center gap-1 text-shadow-realm-text">
+                      <Heart className="w-3 h-3" />
+                      Health
+                    </span>
+                    <span className="text-shadow-realm-text">{currentPlayer.health}/{settings.starting_health}</span>
+                  </div>
+                  <Progress 
+                    value={toPercent(currentPlayer.health)} 
+                    className="h-2"
+                  />
+                </div>
+
+                {/* Gold */}
                 <div className="flex items-center justify-between text-xs">
                   <span className="flex items-center gap-1 text-shadow-realm-text">
-                    <Heart className="w-3 h-3" />
-                    Health
+                    <Coins className="w-3 h-3" />
+                    Gold
                   </span>
-                  <span className="text-shadow-realm-text">{currentPlayer.health}/100</span>
+                  <span className="text-shadow-realm-gold font-semibold">{currentPlayer.gold}</span>
                 </div>
-                <Progress 
-                  value={currentPlayer.health} 
-                  className="h-2"
-                />
-              </div>
-
-              {/* Gold */}
-              <div className="flex items-center justify-between text-xs">
-                <span className="flex items-center gap-1 text-shadow-realm-text">
-                  <Coins className="w-3 h-3" />
-                  Gold
-                </span>
-                <span className="text-shadow-realm-gold font-semibold">{currentPlayer.gold}</span>
-              </div>
-
-              {/* Position */}
-              <div className="flex items-center justify-between text-xs">
-                <span className="text-shadow-realm-text">Position</span>
-                <span className="text-shadow-realm-text">Tile {currentPlayer.position}</span>
-              </div>
-
-              {/* Inventory */}
-              <div className="space-y-1">
-                <span className="text-xs text-shadow-realm-text">Inventory</span>
-                <div className="flex flex-wrap gap-1">
-                  {getInventoryItems(currentPlayer.inventory).length === 0 ? (
-                    <span className="text-xs text-shadow-realm-text/60">Empty</span>
-                  ) : (
-                    getInventoryItems(currentPlayer.inventory).map((item: any, i: number) => (
-                      <Badge key={i} variant="outline" className="text-xs border-shadow-realm-purple/30">
-                        {item.name || item}
-                      </Badge>
-                    ))
-                  )}
+
+                {/* Position */}
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-shadow-realm-text">Position</span>
+                  <span className="text-shadow-realm-text">Tile {currentPlayer.position}</span>
                 </div>
-              </div>
-
-              {/* Properties */}
-              <div className="space-y-1">
-                <span className="text-xs text-shadow-realm-text">Properties</span>
-                <div className="flex flex-wrap gap-1">
-                  {getProperties(currentPlayer.properties).length === 0 ? (
-                    <span className="text-xs text-shadow-realm-text/60">None</span>
-                  ) : (
-                    getProperties(currentPlayer.properties).map((prop: any, i: number) => (
-                      <Badge key={i} variant="outline" className="text-xs border-shadow-realm-gold/30 text-shadow-realm-gold">
-                        Tile {prop.position || prop}
-                      </Badge>
-                    ))
-                  )}
+
+                {/* Inventory */}
+                <div className="space-y-1">
+                  <span className="text-xs text-shadow-realm-text">Inventory</span>
+                  <div className="flex flex-wrap gap-1">
+                    {getInventoryItems(currentPlayer.inventory).length === 0 ? (
+                      <span className="text-xs text-shadow-realm-text/60">Empty</span>
+                    ) : (
+                      getInventoryItems(currentPlayer.inventory).map((item, i) => (
+                        <Badge key={i} variant="outline" className="text-xs border-shadow-realm-purple/30" title={item.description}>
+                          {item.name}
+                        </Badge>
+                      ))
+                    )}
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+
+                {/* Properties */}
+                <div className="space-y-1">
+                  <span className="text-xs text-shadow-realm-text">Properties</span>
+                  <div className="flex flex-wrap gap-1">
+                    {currentPlayer.properties.length === 0 ? (
+                      <span className="text-xs text-shadow-realm-text/60">None</span>
+                    ) : (
+                      currentPlayer.properties.map((position, i) => (
+                        <Badge key={i} variant="outline" className="text-xs border-shadow-realm-gold/30 text-shadow-realm-gold">
+                          Tile {position}
+                        </Badge>
+                      ))
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Other Players */}
           <div className="space-y-2">
-            <h4 className="text-xs font-semibold text-shadow-realm-text/80">Other Players</h4>
+            <h4 className="text-xs font-semibold text-shadow-realm-text/80">
+              {currentPlayer ? 'Other Players' : 'Players'}
+            </h4>
             {players
-              .filter(p => p.id !== currentPlayer.id)
+              .filter(p => p.id !== currentPlayer?.id)
               .sort((a, b) => a.player_number - b.player_number)
               .map((player) => (
                 <Card 
                   key={player.id} 
                   className={`bg-shadow-realm-surface/50 border-shadow-realm-purple/20 ${
                     player.player_number === gameCurrentPlayer ? 'ring-2 ring-shadow-realm-gold/50' : ''
-                  }`}
+                  } ${player.status && player.status !== 'active' ? 'opacity-60' : ''}`}
                 >
                   <CardContent className="p-3">
                     <div className="flex items-center justify-between mb-2">
@@ -156,14 +183,21 @@ export default function PlayerPanel({ players, currentPlayer, gameCurrentPlayer
                         <span className="text-sm font-medium text-shadow-realm-text">
                           {player.character_name}
                         </span>
-                        {Number(player.is_ai) > 0 && (
+                        {player.is_ai && (
                           <Bot className="w-3 h-3 text-shadow-realm-text/60" />
                         )}
+                        {player.ai_controlled && (
+                          <Badge variant="outline" className="border-shadow-realm-purple/30 text-shadow-realm-text/60 text-xs" title="Away; the AI is playing this seat">
+                            <Bot className="w-3 h-3 mr-1" />
+                            Away
+                          </Badge>
+                        )}
                         {player.player_number === gameCurrentPlayer && (
                           <Badge variant="secondary" className="bg-shadow-realm-gold/20 text-shadow-realm-gold text-xs">
                             Turn
                           </Badge>
                         )}
+                        {getStatusBadge(player.status)}
                       </div>
                     </div>
 
@@ -186,8 +220,8 @@ export default function PlayerPanel({ players, currentPlayer, gameCurrentPlayer
                     <div className="mt-2">
                       <div className="w-full bg-shadow-realm-bg/50 rounded-full h-1">
                         <div 
-                          className={`h-1 rounded-full transition-all duration-300 ${getHealthColor(player.health)}`}
-                          style={{ width: `${player.health}%` }}
+                          className={`h-1 rounded-full transition-all duration-300 ${getHealthColor(toPercent(player.health))}`}
+                          style={{ width: `${toPercent(player.health)}%` }}
                         />
                       </div>
                     </div>
@@ -196,16 +230,67 @@ export default function PlayerPanel({ players, currentPlayer, gameCurrentPlayer
               ))}
           </div>
 
-          {/* Add AI Players Button (if less than 4 players) */}
-          {players.length < 4 && (
+          {/* Start Game: AI fills the open seats if the host allowed it */}
+          {gameStatus === 'waiting' && (
             <Card className="bg-shadow-realm-surface/30 border-shadow-realm-purple/20 border-dashed">
-              <CardContent className="p-3 text-center">
-                <div className="text-xs text-shadow-realm-text/60 mb-1">
-                  {4 - players.length} AI player{4 - players.length > 1 ? 's' : ''} will join automatically
-                </div>
-                <div className="text-xs text-shadow-realm-text/40">
-                  when the game starts
+              <CardContent className="p-3 space-y-2">
+                <div className="text-xs text-shadow-realm-text/60 text-center">
+                  {openSeats === 0
+                    ? 'All seats are filled'
+                    : aiSeats > 0
+                      ? `${aiSeats} AI player${aiSeats > 1 ? 's' : ''} will join when the game starts`
+                      : `${openSeats} seat${openSeats > 1 ? 's' : ''} open for other heroes`}
                 </div>
+                {isHost ? (
+                  <>
+                    {aiSeats > 0 && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <Select value={aiDifficulty} onValueChange={(value) => setAiDifficulty(value as AiDifficulty)}>
+                          <SelectTrigger className="h-8 text-xs bg-shadow-realm-bg border-shadow-realm-purple/30">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(AI_DIFFICULTIES).map(([key, difficulty]) => (
+                              <SelectItem key={key} value={key} className="text-xs">
+                                {difficulty.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select value={aiPersonality} onValueChange={(value) => setAiPersonality(value as AiPersonality)}>
+                          <SelectTrigger className="h-8 text-xs bg-shadow-realm-bg border-shadow-realm-purple/30">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(AI_PERSONALITIES).map(([key, personality]) => (
+                              <SelectItem key={key} value={key} className="text-xs">
+                                {personality.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    {aiSeats > 0 && (
+                      <div className="text-xs text-shadow-realm-text/40 text-center">
+                        {AI_DIFFICULTIES[aiDifficulty].description}
+                      </div>
+                    )}
+                    <Button
+                      onClick={() => onStartGame(aiDifficulty, aiPersonality)}
+                      disabled={starting || !canStart}
+                      size="sm"
+                      className="w-full bg-shadow-realm-purple hover:bg-purple-600 text-white"
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      {starting ? 'Starting...' : 'Start Adventure'}
+                    </Button>
+                  </>
+                ) : (
+                  <div className="text-xs text-shadow-realm-text/40 text-center">
+                    Waiting for the host to start the game
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react'
+import { auditRolls, type RollAudit } from '../../lib/game/persistence'
+import type { Game } from '../../lib/game/models'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Badge } from '../ui/badge'
+import { ScrollArea } from '../ui/scroll-area'
+import { Dices, ShieldAlert, ShieldCheck } from 'lucide-react'
+
+interface RollLogProps {
+  game: Game
+}
+
+// Every roll of a finished game, replayed from its seed so anyone can
+// check that nothing was changed after the fact
+export default function RollLog({ game }: RollLogProps) {
+  const [audit, setAudit] = useState<RollAudit | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadAudit = async () => {
+      try {
+        setAudit(await auditRolls(game))
+      } catch (error) {
+        console.error('Failed to load roll log:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadAudit()
+  }, [game.id, game.status]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const tampered = new Set(audit?.tampered.map(roll => roll.index))
+
+  return (
+    <Card className="bg-shadow-realm-surface/50 border-shadow-realm-purple/30">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm text-shadow-realm-gold flex items-center gap-2">
+          <Dices className="w-4 h-4" />
+          Roll Log
+          {audit && (
+            audit.tampered.length === 0 ? (
+              <Badge className="ml-auto bg-green-600/20 text-green-400 text-xs">
+                <ShieldCheck className="w-3 h-3 mr-1" />
+                All {audit.rolls.length} rolls match the seed
+              </Badge>
+            ) : (
+              <Badge className="ml-auto bg-red-600/20 text-red-400 text-xs">
+                <ShieldAlert className="w-3 h-3 mr-1" />
+                {audit.tampered.length} rolls do not match the seed
+              </Badge>
+            )
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading ? (
+          <p className="text-sm text-shadow-realm-text/60">Replaying the dice...</p>
+        ) : !audit ? (
+          <p className="text-sm text-shadow-realm-text/60">This game has no roll log to check.</p>
+        ) : (
+          <>
+            <div className="text-xs text-shadow-realm-text/60">
+              Seed: <span className="font-mono text-shadow-realm-text">{audit.seed}</span>
+            </div>
+            <ScrollArea className="h-64">
+              <div className="space-y-1 pr-3">
+                {audit.rolls.map(roll => (
+                  <div
+                    key={roll.index}
+                    className={`flex items-center gap-3 px-2 py-1 rounded text-xs ${
+                      tampered.has(roll.index) ? 'bg-red-600/10 text-red-400' : 'bg-shadow-realm-bg/50'
+                    }`}
+                  >
+                    <span className="w-8 text-shadow-realm-text/60">#{roll.index}</span>
+                    <span className="flex-1">{roll.purpose}</span>
+                    <span className="font-mono">
+                      {roll.count}d{roll.sides}: {roll.values.join(', ')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
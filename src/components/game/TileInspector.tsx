@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react'
+import { getRegionColor, type BoardDefinition } from '../../lib/game/board'
+import { getTileHistory } from '../../lib/game/history'
+import { listMessages } from '../../lib/game/repository'
+import { useGameSync } from '../../hooks/use-game-sync'
+import type { ChatMessage, Player } from '../../lib/game/models'
+import type { EngineTile } from '../../lib/game/types'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Pin, X } from 'lucide-react'
+
+interface TileInspectorProps {
+  gameId: string
+  board: BoardDefinition
+  tile: EngineTile
+  players: Player[]
+  // Pinned inspectors stay open and show the tile's history
+  pinned: boolean
+  onClose: () => void
+}
+
+// How far back in the log to look for a tile's history
+const HISTORY_LIMIT = 200
+
+export default function TileInspector({ gameId, board, tile, players, pinned, onClose }: TileInspectorProps) {
+  const [history, setHistory] = useState<ChatMessage[]>([])
+
+  const owner = players.find(p => p.properties.includes(tile.position))
+  const occupants = players.filter(p => p.position === tile.position)
+
+  const loadHistory = async () => {
+    try {
+      setHistory(getTileHistory(await listMessages(gameId, HISTORY_LIMIT), tile.position))
+    } catch (error) {
+      console.error('Failed to load tile history:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (pinned) {
+      loadHistory()
+    } else {
+      setHistory([])
+    }
+  }, [gameId, tile.position, pinned]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useGameSync(pinned ? gameId : null, ['chat'], () => loadHistory())
+
+  return (
+    <div
+      role="dialog"
+      aria-label={`${tile.name} details`}
+      className="bg-shadow-realm-surface/90 border border-shadow-realm-purple/30 rounded-lg p-3 w-72 text-shadow-realm-text"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="font-semibold text-shadow-realm-gold">{tile.name}</h3>
+        {pinned ? (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onClose}
+            aria-label="Close tile details"
+            className="h-6 w-6 p-0 text-shadow-realm-text/60 hover:text-shadow-realm-text"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        ) : (
+          <span className="text-[10px] text-shadow-realm-text/40 flex items-center gap-1">
+            <Pin className="w-3 h-3" />
+            Click to pin
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-shadow-realm-text/80 mb-2">{tile.description}</p>
+
+      <div className="flex flex-wrap gap-1 mb-2">
+        <Badge
+          variant="outline"
+          className="text-xs"
+          style={{ borderColor: getRegionColor(board, tile.region), color: getRegionColor(board, tile.region) }}
+        >
+          {tile.region}
+        </Badge>
+        <Badge variant="outline" className="text-xs border-shadow-realm-purple/30 text-shadow-realm-text/80 capitalize">
+          {tile.tile_type}
+        </Badge>
+      </div>
+
+      {/* Ownership */}
+      {tile.purchase_price > 0 && (
+        <div className="grid grid-cols-3 gap-2 text-xs mb-2">
+          <div>
+            <div className="text-shadow-realm-text/60">Owner</div>
+            <div className="font-medium truncate">
+              {owner ? `${owner.avatar} ${owner.character_name}` : 'For sale'}
+            </div>
+          </div>
+          <div>
+            <div className="text-shadow-realm-text/60">Price</div>
+            <div className="text-shadow-realm-gold font-medium">{tile.purchase_price} gold</div>
+          </div>
+          <div>
+            <div className="text-shadow-realm-text/60">Rent</div>
+            <div className="text-shadow-realm-gold font-medium">{tile.rent_price} gold</div>
+          </div>
+        </div>
+      )}
+
+      {/* Occupants */}
+      <div className="text-xs mb-2">
+        <span className="text-shadow-realm-text/60">Here now: </span>
+        {occupants.length > 0
+          ? occupants.map(p => `${p.avatar} ${p.character_name}`).join(', ')
+          : 'Nobody'}
+      </div>
+
+      {/* History */}
+      {pinned && (
+        <div className="border-t border-shadow-realm-purple/20 pt-2">
+          <div className="text-xs text-shadow-realm-text/60 mb-1">History</div>
+          {history.length === 0 ? (
+            <p className="text-xs text-shadow-realm-text/50 italic">Nothing has happened here yet.</p>
+          ) : (
+            <ul className="space-y-1 pr-2 max-h-40 overflow-y-auto">
+              {history.map(message => (
+                <li
+                  key={message.id}
+                  className={`text-xs ${message.message_type === 'narrator' ? 'italic text-shadow-realm-text/70' : ''}`}
+                >
+                  {message.content}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
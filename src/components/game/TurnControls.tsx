@@ -1,50 +1,64 @@
-import { useState } from 'react'
-import { blink } from '../../lib/blink'
+import { useEffect, useState } from 'react'
+import { EngineError, getMaxHealth, getPurchaseOffer, getRevivableTargets } from '../../lib/game/engine'
+import { toEngineState, TurnLockError } from '../../lib/game/persistence'
+import { runAction, takeActionRoll, takeMovementRoll } from '../../lib/game/turns'
+import type { DiceRoll } from '../../lib/game/dice'
+import { formatModifier } from '../../lib/game/abilities'
+import { getBoonName, getItem } from '../../lib/game/items'
+import { getTurnTimeLeft, reclaimSeat } from '../../lib/game/presence'
+import type { Game, Player } from '../../lib/game/models'
 import { Button } from '../ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
 import { Badge } from '../ui/badge'
-import { Dice1, Dice2, Dice3, Dice4, Dice5, Dice6, Swords, Move, Coins } from 'lucide-react'
+import { Dice1, Dice2, Dice3, Dice4, Dice5, Dice6, Swords, Move, Coins, HeartPulse, Skull, Backpack, Bot, Timer } from 'lucide-react'
 import { toast } from 'sonner'
 
-interface Game {
-  id: string
-  current_turn: number
-  current_player: number
-  status: string
-}
-
-interface Player {
-  id: string
-  player_number: number
-  character_name: string
-  position: number
-  health: number
-  gold: number
-  is_ai: number
+interface ActionCheck {
+  roll: number
+  modifier: number
+  total: number
+  breakdown: string
 }
 
 interface TurnControlsProps {
   game: Game
   currentPlayer: Player
   players: Player[]
-  onGameUpdate: () => void
+  onGameUpdate: () => Promise<void> | void
 }
 
 export default function TurnControls({ game, currentPlayer, players, onGameUpdate }: TurnControlsProps) {
   const [rolling, setRolling] = useState(false)
-  const [lastRoll, setLastRoll] = useState<number[]>([])
-  const [actionPhase, setActionPhase] = useState(false)
+  const [lastRoll, setLastRoll] = useState<DiceRoll | null>(null)
+  const [lastCheck, setLastCheck] = useState<ActionCheck | null>(null)
   const [processing, setProcessing] = useState(false)
-
-  const isMyTurn = currentPlayer.player_number === game.current_player
-
-  const rollDice = (count: number = 2) => {
-    const rolls = []
-    for (let i = 0; i < count; i++) {
-      rolls.push(Math.floor(Math.random() * 6) + 1)
-    }
-    return rolls
-  }
+  const [reclaiming, setReclaiming] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  // While the AI holds the seat the controls stay hidden until it is reclaimed
+  const aiPlaying = currentPlayer.ai_controlled
+  const isMyTurn = game.status === 'active' && currentPlayer.player_number === game.current_player && !aiPlaying
+  // The phase lives on the game, so a reload resumes the turn where it was
+  const engineState = toEngineState(game, players)
+  const turnTimeLeft = getTurnTimeLeft(game, now)
+  const turnPhase = engineState.game.turn_phase
+  const actionPhase = turnPhase !== 'awaiting_move'
+  const purchaseOffer = turnPhase === 'awaiting_purchase' ? getPurchaseOffer(engineState, currentPlayer.id) : null
+  const showPurchaseOffer = isMyTurn && purchaseOffer !== null
+  const isDowned = currentPlayer.status === 'downed'
+  const isEliminated = currentPlayer.status === 'eliminated'
+  const inventory = currentPlayer.inventory
+  const readiedBoons = currentPlayer.boons
+  // Reviving is only offered before the hero sets off
+  const reviveTargets = isMyTurn && !actionPhase ? getRevivableTargets(engineState, currentPlayer.id) : []
+
+  // Tick the turn timer once a second while there is one
+  const timed = turnTimeLeft !== null
+  useEffect(() => {
+    if (!timed) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [timed])
 
   const getDiceIcon = (value: number) => {
     const icons = [Dice1, Dice2, Dice3, Dice4, Dice5, Dice6]
@@ -52,63 +66,36 @@ export default function TurnControls({ game, currentPlayer, players, onGameUpdat
     return <Icon className="w-5 h-5" />
   }
 
+  // Each step runs through the rules engine and is committed under the turn
+  // lock; the board is then refreshed so the next step sees the new state.
+  const currentState = () => toEngineState(game, players)
+
+  const reportError = (error: unknown, fallback: string) => {
+    console.error(fallback, error)
+    toast.error(error instanceof EngineError ? error.message : fallback)
+
+    // A rejected stale action means our view is out of date
+    if (error instanceof TurnLockError) {
+      onGameUpdate()
+    }
+  }
+
   const rollMovement = async () => {
     if (!isMyTurn || rolling) return
 
     setRolling(true)
     try {
       // Roll 2d6 for movement
-      const diceRolls = rollDice(2)
-      const totalMovement = diceRolls.reduce((sum, roll) => sum + roll, 0)
-      setLastRoll(diceRolls)
-
-      // Calculate new position
-      const newPosition = (currentPlayer.position + totalMovement) % 100
-
-      // Update player position
-      await blink.db.players.update(currentPlayer.id, {
-        position: newPosition
-      })
-
-      // Add movement message
-      await blink.db.chat_messages.create({
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        game_id: game.id,
-        user_id: null,
-        player_id: currentPlayer.id,
-        message_type: 'action',
-        content: `${currentPlayer.character_name} rolled ${diceRolls.join(' + ')} = ${totalMovement} and moved to tile ${newPosition}`,
-        metadata: JSON.stringify({ 
-          action: 'movement', 
-          dice: diceRolls, 
-          total: totalMovement, 
-          newPosition 
-        })
-      })
-
-      // Check if passed start (tile 0)
-      if (currentPlayer.position + totalMovement >= 100) {
-        await blink.db.players.update(currentPlayer.id, {
-          gold: currentPlayer.gold + 200
-        })
-        
-        await blink.db.chat_messages.create({
-          id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          game_id: game.id,
-          user_id: null,
-          player_id: currentPlayer.id,
-          message_type: 'system',
-          content: `${currentPlayer.character_name} passed the Shadow Portal and collected 200 gold!`,
-          metadata: '{}'
-        })
-      }
+      const { events, roll } = await takeMovementRoll(currentState(), currentPlayer.id)
+      await onGameUpdate()
+      setLastRoll(roll ?? null)
 
-      setActionPhase(true)
-      toast.success(`Rolled ${totalMovement}! Moved to tile ${newPosition}`)
-      
+      const moved = events.find(e => e.type === 'moved')
+      if (moved) {
+        toast.success(`Rolled ${moved.total}! Moved to tile ${moved.to}`)
+      }
     } catch (error) {
-      console.error('Failed to roll movement:', error)
-      toast.error('Failed to roll dice')
+      reportError(error, 'Failed to roll dice')
     } finally {
       setRolling(false)
     }
@@ -119,131 +106,106 @@ export default function TurnControls({ game, currentPlayer, players, onGameUpdat
 
     setProcessing(true)
     try {
-      // Roll 1d20 for action
-      const actionRoll = rollDice(1)[0]
-      
-      // Get current tile info
-      const tiles = await blink.db.board_tiles.list({
-        where: { position: currentPlayer.position },
-        limit: 1
-      })
-
-      if (tiles.length === 0) {
-        toast.error('Tile not found')
-        return
+      // Roll 1d20 and let the Game Master narrate the encounter
+      const { events } = await takeActionRoll(currentState(), currentPlayer.id)
+      await onGameUpdate()
+
+      const check = events.find(e => e.type === 'tile_resolved')
+      if (check) {
+        setLastCheck({ roll: check.roll, modifier: check.modifier, total: check.total, breakdown: check.breakdown })
+        toast.success(`Action roll: ${check.roll} ${formatModifier(check.modifier)} = ${check.total}`)
       }
+    } catch (error) {
+      reportError(error, 'Failed to perform action')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const buyProperty = async () => {
+    if (!isMyTurn || processing) return
 
-      const currentTile = tiles[0]
-      
-      // Generate AI narration for the tile encounter
-      const { text: narration } = await blink.ai.generateText({
-        prompt: `${currentPlayer.character_name} has landed on "${currentTile.name}" (${currentTile.description}) in the ${currentTile.region}. 
-        They rolled a ${actionRoll} on a d20 action roll. 
-        
-        This is a ${currentTile.tile_type} tile. Based on the roll and tile type, create a short 1-2 sentence narration of what happens. 
-        
-        For property tiles: High rolls (15+) might find treasure or get a discount. Low rolls (5-) might face a challenge.
-        For monster tiles: High rolls mean victory, low rolls mean taking damage.
-        For event tiles: The roll determines the outcome of the random event.
-        For treasure tiles: Higher rolls find better treasure.
-        
-        Keep it exciting and appropriate for a D&D adventure!`,
-        maxTokens: 100
-      })
-
-      // Add action message
-      await blink.db.chat_messages.create({
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        game_id: game.id,
-        user_id: null,
-        player_id: currentPlayer.id,
-        message_type: 'narrator',
-        content: narration,
-        metadata: JSON.stringify({ 
-          action: 'tile_encounter', 
-          roll: actionRoll, 
-          tile: currentTile 
-        })
-      })
-
-      // Apply tile effects based on roll and type
-      await applyTileEffects(currentTile, actionRoll)
-
-      toast.success(`Action roll: ${actionRoll}`)
-      
+    setProcessing(true)
+    try {
+      await runAction(currentState(), { type: 'buy_property', playerId: currentPlayer.id })
+      await onGameUpdate()
+      toast.success('Property purchased!')
     } catch (error) {
-      console.error('Failed to roll action:', error)
-      toast.error('Failed to perform action')
+      reportError(error, 'Failed to buy property')
     } finally {
       setProcessing(false)
     }
   }
 
-  const applyTileEffects = async (tile: any, roll: number) => {
-    let healthChange = 0
-    let goldChange = 0
-
-    switch (tile.tile_type) {
-      case 'monster':
-        if (roll >= 15) {
-          goldChange = 50 + (roll * 5) // Victory reward
-        } else if (roll <= 8) {
-          healthChange = -15 // Take damage
-        }
-        break
-      
-      case 'treasure':
-        goldChange = 25 + (roll * 3) // Better rolls = more treasure
-        break
-      
-      case 'event':
-        if (roll >= 12) {
-          goldChange = 30 // Good event
-        } else if (roll <= 6) {
-          goldChange = -20 // Bad event
-        }
-        break
-      
-      case 'property':
-        // Property purchase logic would go here
-        break
+  const activateItem = async (itemId: string) => {
+    if (!isMyTurn || processing) return
+
+    setProcessing(true)
+    try {
+      await runAction(currentState(), { type: 'use_item', playerId: currentPlayer.id, itemId })
+      await onGameUpdate()
+      toast.success(`Used ${getItem(itemId)?.name ?? 'item'}`)
+    } catch (error) {
+      reportError(error, 'Failed to use item')
+    } finally {
+      setProcessing(false)
     }
+  }
 
-    // Apply changes
-    if (healthChange !== 0 || goldChange !== 0) {
-      const newHealth = Math.max(0, Math.min(100, currentPlayer.health + healthChange))
-      const newGold = Math.max(0, currentPlayer.gold + goldChange)
-
-      await blink.db.players.update(currentPlayer.id, {
-        health: newHealth,
-        gold: newGold
-      })
-
-      if (healthChange !== 0) {
-        const changeText = healthChange > 0 ? `gained ${healthChange}` : `lost ${Math.abs(healthChange)}`
-        await blink.db.chat_messages.create({
-          id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          game_id: game.id,
-          user_id: null,
-          player_id: currentPlayer.id,
-          message_type: 'system',
-          content: `${currentPlayer.character_name} ${changeText} health!`,
-          metadata: '{}'
-        })
-      }
+  const declinePurchase = async () => {
+    if (!isMyTurn || processing) return
 
-      if (goldChange !== 0) {
-        const changeText = goldChange > 0 ? `gained ${goldChange}` : `lost ${Math.abs(goldChange)}`
-        await blink.db.chat_messages.create({
-          id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          game_id: game.id,
-          user_id: null,
-          player_id: currentPlayer.id,
-          message_type: 'system',
-          content: `${currentPlayer.character_name} ${changeText} gold!`,
-          metadata: '{}'
-        })
-      }
+    setProcessing(true)
+    try {
+      await runAction(currentState(), { type: 'decline_purchase', playerId: currentPlayer.id })
+      await onGameUpdate()
+    } catch (error) {
+      reportError(error, 'Failed to decline property')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const recover = async () => {
+    if (!isMyTurn || processing) return
+
+    setProcessing(true)
+    try {
+      await runAction(currentState(), { type: 'recover', playerId: currentPlayer.id })
+      await onGameUpdate()
+      toast.success('You recover and pass your turn')
+    } catch (error) {
+      reportError(error, 'Failed to recover')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const revive = async (targetId: string) => {
+    if (!isMyTurn || processing) return
+
+    setProcessing(true)
+    try {
+      await runAction(currentState(), { type: 'revive', playerId: currentPlayer.id, targetId })
+      await onGameUpdate()
+      toast.success('Hero revived!')
+    } catch (error) {
+      reportError(error, 'Failed to revive')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const takeBackSeat = async () => {
+    setReclaiming(true)
+    try {
+      await reclaimSeat(game.id, currentPlayer)
+      await onGameUpdate()
+      toast.success('Your seat is yours again')
+    } catch (error) {
+      reportError(error, 'Failed to take back your seat')
+    } finally {
+      setReclaiming(false)
     }
   }
 
@@ -252,33 +214,12 @@ export default function TurnControls({ game, currentPlayer, players, onGameUpdat
 
     setProcessing(true)
     try {
-      // Move to next player
-      const nextPlayer = (game.current_player % 4) + 1
-      const nextTurn = nextPlayer === 1 ? game.current_turn + 1 : game.current_turn
-
-      await blink.db.games.update(game.id, {
-        current_player: nextPlayer,
-        current_turn: nextTurn
-      })
-
-      // Add turn end message
-      await blink.db.chat_messages.create({
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        game_id: game.id,
-        user_id: null,
-        player_id: null,
-        message_type: 'system',
-        content: `${currentPlayer.character_name} ended their turn. Player ${nextPlayer}'s turn begins!`,
-        metadata: '{}'
-      })
-
-      setActionPhase(false)
-      setLastRoll([])
-      onGameUpdate()
-      
+      await runAction(currentState(), { type: 'end_turn', playerId: currentPlayer.id })
+      await onGameUpdate()
+      setLastRoll(null)
+      setLastCheck(null)
     } catch (error) {
-      console.error('Failed to end turn:', error)
-      toast.error('Failed to end turn')
+      reportError(error, 'Failed to end turn')
     } finally {
       setProcessing(false)
     }
@@ -310,33 +251,220 @@ export default function TurnControls({ game, currentPlayer, players, onGameUpdat
                   Waiting...
                 </Badge>
               )}
+              {turnTimeLeft !== null && (
+                <div className={`text-xs mt-1 flex items-center justify-center gap-1 ${
+                  turnTimeLeft <= 10 ? 'text-red-400' : 'text-shadow-realm-text/60'
+                }`}>
+                  <Timer className="w-3 h-3" />
+                  {turnTimeLeft}s left
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
 
+        {/* Seat Held By The AI */}
+        {aiPlaying && game.status === 'active' && (
+          <Card className="bg-shadow-realm-surface/50 border-shadow-realm-gold/40">
+            <CardContent className="p-3 space-y-2">
+              <div className="text-center">
+                <Bot className="w-5 h-5 mx-auto mb-1 text-shadow-realm-gold" />
+                <div className="text-sm font-semibold text-shadow-realm-gold">The AI is playing your seat</div>
+                <div className="text-xs text-shadow-realm-text/60">
+                  You were away or ran out of time. Take your seat back whenever you are ready.
+                </div>
+              </div>
+              <Button
+                onClick={takeBackSeat}
+                disabled={reclaiming}
+                size="sm"
+                className="w-full bg-shadow-realm-purple hover:bg-purple-600 text-white"
+              >
+                {reclaiming ? 'Reclaiming...' : 'Take Back My Seat'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Last Roll Display */}
-        {lastRoll.length > 0 && (
+        {lastRoll && (
           <Card className="bg-shadow-realm-surface/50 border-shadow-realm-purple/30">
             <CardContent className="p-3">
               <div className="text-center">
-                <div className="text-xs text-shadow-realm-text/60 mb-2">Last Roll</div>
+                <div className="text-xs text-shadow-realm-text/60 mb-2">Last Roll #{lastRoll.index}</div>
                 <div className="flex justify-center gap-2 mb-2">
-                  {lastRoll.map((roll, i) => (
+                  {lastRoll.values.map((roll, i) => (
                     <div key={i} className="text-shadow-realm-gold">
                       {getDiceIcon(roll)}
                     </div>
                   ))}
                 </div>
                 <div className="text-sm text-shadow-realm-text">
-                  Total: {lastRoll.reduce((sum, roll) => sum + roll, 0)}
+                  Total: {lastRoll.values.reduce((sum, roll) => sum + roll, 0)}
                 </div>
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Last Action Check */}
+        {lastCheck && (
+          <Card className="bg-shadow-realm-surface/50 border-shadow-realm-purple/30">
+            <CardContent className="p-3">
+              <div className="text-center">
+                <div className="text-xs text-shadow-realm-text/60 mb-1">Action Check</div>
+                <div className="text-lg font-bold text-shadow-realm-gold">
+                  {lastCheck.roll} {formatModifier(lastCheck.modifier)} = {lastCheck.total}
+                </div>
+                <div className="text-xs text-shadow-realm-text/60">{lastCheck.breakdown}</div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Property Offer */}
+        {showPurchaseOffer && purchaseOffer && (
+          <Card className="bg-shadow-realm-surface/50 border-shadow-realm-gold/40">
+            <CardContent className="p-3 space-y-2">
+              <div className="text-center">
+                <div className="text-xs text-shadow-realm-text/60">For Sale</div>
+                <div className="text-sm font-semibold text-shadow-realm-gold">{purchaseOffer.name}</div>
+                <div className="text-xs text-shadow-realm-text/80">
+                  {purchaseOffer.purchase_price} gold • Rent {purchaseOffer.rent_price}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={buyProperty}
+                  disabled={processing}
+                  size="sm"
+                  className="flex-1 bg-shadow-realm-gold hover:bg-amber-600 text-shadow-realm-bg"
+                >
+                  <Coins className="w-4 h-4 mr-1" />
+                  Buy
+                </Button>
+                <Button
+                  onClick={declinePurchase}
+                  disabled={processing}
+                  size="sm"
+                  variant="outline"
+                  className="flex-1 border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
+                >
+                  Decline
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Knocked Out */}
+        {(isDowned || isEliminated) && (
+          <Card className="bg-red-950/30 border-red-500/40">
+            <CardContent className="p-3 space-y-2">
+              <div className="text-center">
+                <Skull className="w-5 h-5 mx-auto mb-1 text-red-400" />
+                <div className="text-sm font-semibold text-red-400">
+                  {isEliminated ? 'Eliminated' : 'You are downed'}
+                </div>
+                <div className="text-xs text-shadow-realm-text/60">
+                  {isEliminated
+                    ? 'Your adventure is over. Watch the others finish the quest.'
+                    : 'Spend your turn recovering, or wait for a Cleric to revive you.'}
+                </div>
+              </div>
+              {isMyTurn && (
+                // Falling mid-turn just ends it; recovery waits for the next one
+                isEliminated || actionPhase ? (
+                  <Button
+                    onClick={endTurn}
+                    disabled={processing}
+                    size="sm"
+                    className="w-full bg-shadow-realm-purple hover:bg-purple-600 text-white"
+                  >
+                    {isEliminated ? 'Pass Turn' : 'End Turn'}
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={recover}
+                    disabled={processing}
+                    size="sm"
+                    className="w-full bg-shadow-realm-purple hover:bg-purple-600 text-white"
+                  >
+                    Recover (skip turn)
+                  </Button>
+                )
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Revive Fallen Heroes */}
+        {reviveTargets.length > 0 && (
+          <Card className="bg-shadow-realm-surface/50 border-shadow-realm-gold/40">
+            <CardContent className="p-3 space-y-2">
+              <div className="text-xs text-center text-shadow-realm-text/60">Fallen Allies</div>
+              {reviveTargets.map(target => (
+                <Button
+                  key={target.id}
+                  onClick={() => revive(target.id)}
+                  disabled={processing}
+                  size="sm"
+                  variant="outline"
+                  className="w-full border-shadow-realm-gold/40 text-shadow-realm-gold hover:bg-shadow-realm-gold/10"
+                >
+                  <HeartPulse className="w-4 h-4 mr-1" />
+                  Revive {target.character_name}
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Use Item */}
+        {isMyTurn && currentPlayer.status === 'active' && (inventory.length > 0 || readiedBoons.length > 0) && (
+          <Card className="bg-shadow-realm-surface/50 border-shadow-realm-purple/30">
+            <CardContent className="p-3 space-y-2">
+              <div className="text-xs text-shadow-realm-text/60 flex items-center gap-1">
+                <Backpack className="w-3 h-3" />
+                Use Item
+              </div>
+              {readiedBoons.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {readiedBoons.map((boon, i) => (
+                    <Badge key={i} variant="secondary" className="bg-shadow-realm-gold/20 text-shadow-realm-gold text-xs">
+                      {getBoonName(boon)}{boon.bonus < 0 ? '' : ' ready'}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {inventory.map((itemId, i) => {
+                const item = getItem(itemId)
+                // Movement items only work before the roll
+                const usable = !actionPhase || item?.effect.type !== 'teleport'
+                return (
+                  <div key={`${itemId}_${i}`} className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-xs font-medium text-shadow-realm-text truncate">{item?.name}</div>
+                      <div className="text-xs text-shadow-realm-text/50 truncate">{item?.description}</div>
+                    </div>
+                    <Button
+                      onClick={() => activateItem(itemId)}
+                      disabled={processing || !usable}
+                      size="sm"
+                      variant="outline"
+                      className="h-7 border-shadow-realm-purple/30 text-shadow-realm-text hover:bg-shadow-realm-purple/10"
+                    >
+                      Use
+                    </Button>
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Action Buttons */}
-        {isMyTurn && (
+        {isMyTurn && currentPlayer.status === 'active' && (
           <div className="space-y-2">
             {!actionPhase ? (
               <Button
@@ -349,15 +477,17 @@ export default function TurnControls({ game, currentPlayer, players, onGameUpdat
               </Button>
             ) : (
               <>
-                <Button
-                  onClick={rollAction}
-                  disabled={processing}
-                  className="w-full bg-shadow-realm-gold hover:bg-amber-600 text-shadow-realm-bg"
-                >
-                  <Swords className="w-4 h-4 mr-2" />
-                  {processing ? 'Processing...' : 'Take Action (1d20)'}
-                </Button>
-                
+                {turnPhase === 'awaiting_action' && (
+                  <Button
+                    onClick={rollAction}
+                    disabled={processing}
+                    className="w-full bg-shadow-realm-gold hover:bg-amber-600 text-shadow-realm-bg"
+                  >
+                    <Swords className="w-4 h-4 mr-2" />
+                    {processing ? 'Processing...' : 'Take Action (1d20)'}
+                  </Button>
+                )}
+
                 <Button
                   onClick={endTurn}
                   disabled={processing}
@@ -384,7 +514,7 @@ export default function TurnControls({ game, currentPlayer, players, onGameUpdat
               </div>
               <div className="text-center">
                 <div className="text-shadow-realm-text/60">Players</div>
-                <div className="text-shadow-realm-text font-medium">{players.length}/4</div>
+                <div className="text-shadow-realm-text font-medium">{players.length}/{game.settings.max_players}</div>
               </div>
             </div>
           </CardContent>
@@ -394,7 +524,7 @@ export default function TurnControls({ game, currentPlayer, players, onGameUpdat
         <div className="grid grid-cols-2 gap-2 text-xs">
           <div className="bg-shadow-realm-bg/30 rounded p-2 text-center">
             <div className="text-shadow-realm-text/60">Your Health</div>
-            <div className="text-shadow-realm-text font-medium">{currentPlayer.health}/100</div>
+            <div className="text-shadow-realm-text font-medium">{currentPlayer.health}/{getMaxHealth(engineState)}</div>
           </div>
           <div className="bg-shadow-realm-bg/30 rounded p-2 text-center">
             <div className="text-shadow-realm-text/60">Your Gold</div>
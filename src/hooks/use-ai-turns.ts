@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react'
+import { isAiDriver, playAiTurn } from '../lib/game/ai'
+import { isAiControlled } from '../lib/game/presence'
+import type { Game, Player } from '../lib/game/models'
+
+// Plays AI turns from this client when it is the designated driver
+export function useAiTurns(
+  game: Game | null,
+  players: Player[],
+  userId: string,
+  onUpdate: () => void
+) {
+  const running = useRef(false)
+
+  useEffect(() => {
+    if (!game || game.status !== 'active' || running.current) return
+
+    const current = players.find(p => p.player_number === game.current_player)
+    if (!current || !isAiControlled(current)) return
+    if (!isAiDriver(players, userId)) return
+
+    running.current = true
+    playAiTurn(game.id, onUpdate)
+      .catch(error => console.error('AI turn failed:', error))
+      .finally(() => {
+        running.current = false
+        onUpdate()
+      })
+  }, [game?.id, game?.status, game?.current_player, game?.version, players, userId]) // eslint-disable-line react-hooks/exhaustive-deps
+}
@@ -0,0 +1,51 @@
+import { useCallback, useState } from 'react'
+import { DEFAULT_LAYOUT, LAYOUTS, type LayoutId } from '../lib/game/layout'
+
+// Per-device board display settings, kept in localStorage
+
+export interface BoardPreferences {
+  // Skip token walking animations and move tokens straight to their tile
+  reducedMotion: boolean
+  // Keep the camera on whichever token is walking
+  followCamera: boolean
+  // How tiles are arranged on the board
+  layout: LayoutId
+}
+
+const STORAGE_KEY = 'shadow-realm:board-preferences'
+
+const loadPreferences = (): BoardPreferences => {
+  const prefersReducedMotion = typeof window !== 'undefined' &&
+    window.matchMedia?.('(prefers-reduced-motion: reduce)').matches
+  const defaults: BoardPreferences = {
+    reducedMotion: Boolean(prefersReducedMotion),
+    followCamera: true,
+    layout: DEFAULT_LAYOUT
+  }
+
+  try {
+    const stored = { ...defaults, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') }
+    // Forget layouts that no longer exist
+    return stored.layout in LAYOUTS ? stored : { ...stored, layout: DEFAULT_LAYOUT }
+  } catch {
+    return defaults
+  }
+}
+
+export function useBoardPreferences() {
+  const [preferences, setPreferences] = useState<BoardPreferences>(loadPreferences)
+
+  const updatePreferences = useCallback((changes: Partial<BoardPreferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...changes }
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+      } catch (error) {
+        console.error('Failed to save board preferences:', error)
+      }
+      return next
+    })
+  }, [])
+
+  return { preferences, updatePreferences }
+}
@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState, type PointerEvent } from 'react'
+
+// Pan and zoom for a fixed-size board drawn inside a resizable container.
+// The view maps a board point b to the screen point (x + b * zoom), so
+// zooming around a cursor only has to keep that point still.
+
+export const MIN_ZOOM = 0.5
+export const MAX_ZOOM = 3
+
+const BUTTON_ZOOM_STEP = 1.25
+const WHEEL_ZOOM_SPEED = 0.0015
+
+// Pointer travel (px) before a press becomes a drag rather than a click
+const DRAG_THRESHOLD = 4
+
+export interface BoardView {
+  zoom: number
+  x: number
+  y: number
+}
+
+interface Point {
+  x: number
+  y: number
+}
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })
+
+export function useBoardViewport(boardWidth: number, boardHeight: number) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [view, setView] = useState<BoardView>({ zoom: 1, x: 0, y: 0 })
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const pointers = useRef(new Map<number, Point>())
+  const dragging = useRef(false)
+  const centered = useRef(false)
+
+  // Keeps the board point under `anchor` (container coordinates) fixed
+  const zoomAt = useCallback((factor: number, anchor: Point) => {
+    setView(prev => {
+      const zoom = clampZoom(prev.zoom * factor)
+      const ratio = zoom / prev.zoom
+      return { zoom, x: anchor.x - (anchor.x - prev.x) * ratio, y: anchor.y - (anchor.y - prev.y) * ratio }
+    })
+  }, [])
+
+  const centerOn = useCallback((point: Point, zoom?: number) => {
+    setView(prev => {
+      const nextZoom = clampZoom(zoom ?? prev.zoom)
+      return { zoom: nextZoom, x: size.width / 2 - point.x * nextZoom, y: size.height / 2 - point.y * nextZoom }
+    })
+  }, [size])
+
+  const reset = useCallback(() => {
+    centerOn({ x: boardWidth / 2, y: boardHeight / 2 }, 1)
+  }, [centerOn, boardWidth, boardHeight])
+
+  const containerCenter = useCallback(() => ({ x: size.width / 2, y: size.height / 2 }), [size])
+  const zoomIn = useCallback(() => zoomAt(BUTTON_ZOOM_STEP, containerCenter()), [zoomAt, containerCenter])
+  const zoomOut = useCallback(() => zoomAt(1 / BUTTON_ZOOM_STEP, containerCenter()), [zoomAt, containerCenter])
+
+  // Track the container size so centering works after layout changes
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // Start centred once the container has a size
+  useEffect(() => {
+    if (centered.current || size.width === 0) return
+    centered.current = true
+    reset()
+  }, [size, reset])
+
+  // React registers wheel listeners as passive, which rules out
+  // preventDefault, so this one is attached by hand
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const bounds = element.getBoundingClientRect()
+      zoomAt(Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED), {
+        x: event.clientX - bounds.left,
+        y: event.clientY - bounds.top
+      })
+    }
+    element.addEventListener('wheel', onWheel, { passive: false })
+    return () => element.removeEventListener('wheel', onWheel)
+  }, [zoomAt])
+
+  const toLocal = (event: PointerEvent): Point => {
+    const bounds = containerRef.current!.getBoundingClientRect()
+    return { x: event.clientX - bounds.left, y: event.clientY - bounds.top }
+  }
+
+  // One pointer drags the board; two pointers pinch-zoom around their midpoint.
+  // The pointer is only captured once it starts dragging, so a plain click
+  // still reaches whatever is under it.
+  const onPointerDown = (event: PointerEvent) => {
+    pointers.current.set(event.pointerId, toLocal(event))
+  }
+
+  const onPointerMove = (event: PointerEvent) => {
+    const previous = pointers.current.get(event.pointerId)
+    if (!previous) return
+
+    const current = toLocal(event)
+    if (!dragging.current) {
+      if (pointers.current.size === 1 && distance(previous, current) < DRAG_THRESHOLD) return
+      dragging.current = true
+    }
+    containerRef.current?.setPointerCapture(event.pointerId)
+    const others = [...pointers.current.entries()].filter(([id]) => id !== event.pointerId).map(([, p]) => p)
+    pointers.current.set(event.pointerId, current)
+
+    if (others.length === 0) {
+      setView(prev => ({ ...prev, x: prev.x + current.x - previous.x, y: prev.y + current.y - previous.y }))
+      return
+    }
+
+    const other = others[0]
+    const before = midpoint(previous, other)
+    const after = midpoint(current, other)
+    const factor = distance(previous, other) > 0 ? distance(current, other) / distance(previous, other) : 1
+    setView(prev => {
+      const zoom = clampZoom(prev.zoom * factor)
+      const ratio = zoom / prev.zoom
+      return {
+        zoom,
+        x: after.x - (before.x - prev.x) * ratio,
+        y: after.y - (before.y - prev.y) * ratio
+      }
+    })
+  }
+
+  const onPointerUp = (event: PointerEvent) => {
+    pointers.current.delete(event.pointerId)
+    if (pointers.current.size === 0) dragging.current = false
+  }
+
+  // The part of the board currently on screen, in board coordinates
+  const visibleRect = {
+    x: -view.x / view.zoom,
+    y: -view.y / view.zoom,
+    width: size.width / view.zoom,
+    height: size.height / view.zoom
+  }
+
+  return {
+    containerRef,
+    view,
+    visibleRect,
+    zoomIn,
+    zoomOut,
+    reset,
+    centerOn,
+    pointerHandlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react'
+import { subscribeToGame, type ChangeKind } from '../lib/game/sync'
+
+// Coalesces a burst of notifications (one action touches several parts)
+const SYNC_DEBOUNCE_MS = 150
+
+// Calls onChange whenever another client (or this one) changes one of the
+// given parts of the game
+export function useGameSync(gameId: string | null, kinds: ChangeKind[], onChange: () => void) {
+  const onChangeRef = useRef(onChange)
+  const kindsKey = kinds.join(',')
+
+  useEffect(() => {
+    onChangeRef.current = onChange
+  }, [onChange])
+
+  useEffect(() => {
+    if (!gameId) return
+
+    const watched = kindsKey.split(',')
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const unsubscribe = subscribeToGame(gameId, (changed) => {
+      if (!changed.some(kind => watched.includes(kind))) return
+      clearTimeout(timer)
+      timer = setTimeout(() => onChangeRef.current(), SYNC_DEBOUNCE_MS)
+    })
+
+    return () => {
+      clearTimeout(timer)
+      unsubscribe()
+    }
+  }, [gameId, kindsKey])
+}
@@ -0,0 +1,24 @@
+import { useEffect } from 'react'
+import { checkAbandonedSeats, HEARTBEAT_INTERVAL_MS, sendHeartbeat } from '../lib/game/presence'
+
+// Keeps this client's seat marked as present and, while the game is on,
+// watches for seats that need handing to the AI. Spectators have no seat
+// and take no part.
+export function usePresence(gameId: string, playerId: string | null, userId: string, active: boolean) {
+  useEffect(() => {
+    if (!playerId) return
+
+    const beat = async () => {
+      try {
+        await sendHeartbeat(playerId)
+        if (active) await checkAbandonedSeats(gameId, userId)
+      } catch (error) {
+        console.error('Presence check failed:', error)
+      }
+    }
+
+    beat()
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [gameId, playerId, userId, active])
+}
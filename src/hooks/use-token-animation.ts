@@ -0,0 +1,52 @@
+import { useEffect, useRef, useState } from 'react'
+
+// Walks tokens tile by tile from where they are drawn to where they are.
+// Works the same whether the move was ours or arrived through sync.
+
+const STEP_MS = 180
+
+// Longer jumps (teleports, respawns) are not walked
+const MAX_WALK = 12
+
+export function useTokenAnimation(positions: Record<string, number>, boardSize: number, animate: boolean) {
+  const [displayed, setDisplayed] = useState(positions)
+  const targets = useRef(positions)
+  const positionsKey = JSON.stringify(positions)
+
+  useEffect(() => {
+    targets.current = positions
+
+    if (!animate || boardSize === 0) {
+      setDisplayed(positions)
+      return
+    }
+
+    const timer = setInterval(() => {
+      setDisplayed(prev => {
+        let moving = false
+        const next: Record<string, number> = {}
+
+        for (const [id, target] of Object.entries(targets.current)) {
+          const current = prev[id]
+          const distance = current === undefined ? 0 : (target - current + boardSize) % boardSize
+          if (distance === 0 || distance > MAX_WALK) {
+            next[id] = target
+          } else {
+            next[id] = (current + 1) % boardSize
+            moving = true
+          }
+        }
+
+        if (!moving) clearInterval(timer)
+        return next
+      })
+    }, STEP_MS)
+
+    return () => clearInterval(timer)
+  }, [positionsKey, boardSize, animate]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // The token still walking, if any, so the camera can follow it
+  const walkingId = Object.keys(positions).find(id => displayed[id] !== undefined && displayed[id] !== positions[id]) ?? null
+
+  return { displayed, walkingId }
+}
@@ -0,0 +1,76 @@
+import type { EnginePlayer } from './types'
+
+export type Ability = 'strength' | 'dexterity' | 'constitution' | 'intelligence' | 'wisdom' | 'charisma'
+
+export const ABILITY_ABBREVIATIONS: Record<Ability, string> = {
+  strength: 'STR',
+  dexterity: 'DEX',
+  constitution: 'CON',
+  intelligence: 'INT',
+  wisdom: 'WIS',
+  charisma: 'CHA'
+}
+
+// Which ability a tile's action check uses
+export const CHECK_ABILITIES: Record<string, Ability> = {
+  monster: 'strength',
+  trap: 'dexterity',
+  event: 'charisma',
+  property: 'charisma',
+  treasure: 'wisdom',
+  start: 'wisdom'
+}
+
+// Classes trained in a kind of encounter add a flat bonus to that check
+export const CLASS_PROFICIENCY_BONUS = 2
+
+export const CLASS_PROFICIENCIES: Record<string, string[]> = {
+  Fighter: ['monster'],
+  Rogue: ['trap', 'treasure'],
+  Wizard: ['event'],
+  Ranger: ['monster', 'trap'],
+  Cleric: ['event'],
+  Sorcerer: ['property']
+}
+
+// Every point of charisma modifier knocks 5% off a purchase, up to 25%
+const BARGAIN_STEP = 0.05
+const MAX_BARGAIN = 0.25
+
+export interface CheckModifier {
+  ability: Ability
+  abilityModifier: number
+  classBonus: number
+  total: number
+  breakdown: string
+}
+
+export function abilityModifier(score: number): number {
+  return Math.floor((score - 10) / 2)
+}
+
+export const formatModifier = (value: number) => (value >= 0 ? `+${value}` : `${value}`)
+
+export function getCheckModifier(player: EnginePlayer, tileType: string): CheckModifier {
+  const ability = CHECK_ABILITIES[tileType] ?? 'wisdom'
+  const fromAbility = abilityModifier(player[ability])
+  const classBonus = CLASS_PROFICIENCIES[player.character_class]?.includes(tileType) ? CLASS_PROFICIENCY_BONUS : 0
+
+  const parts = [`${ABILITY_ABBREVIATIONS[ability]} ${formatModifier(fromAbility)}`]
+  if (classBonus) {
+    parts.push(`${player.character_class} ${formatModifier(classBonus)}`)
+  }
+
+  return {
+    ability,
+    abilityModifier: fromAbility,
+    classBonus,
+    total: fromAbility + classBonus,
+    breakdown: parts.join(', ')
+  }
+}
+
+export function getPurchasePrice(player: EnginePlayer, basePrice: number): number {
+  const discount = Math.min(MAX_BARGAIN, Math.max(0, abilityModifier(player.charisma)) * BARGAIN_STEP)
+  return Math.round(basePrice * (1 - discount))
+}
@@ -0,0 +1,162 @@
+import {
+  createJoinRequest,
+  getJoinRequest as getJoinRequestRow,
+  listJoinRequests,
+  updateJoinRequest
+} from './repository'
+import { notifyGameChanged } from './sync'
+import type { Game, JoinRequest } from './models'
+
+// Who may join a game. Private games stay out of the public lobby and are
+// found by invite code instead; any game can also ask for a password and
+// have the host approve each new hero. Passwords are stored hashed with
+// the game id, never as typed.
+
+export type GameVisibility = 'public' | 'private'
+export type JoinRequestStatus = 'pending' | 'approved' | 'declined'
+
+// What the host picks when creating a game
+export interface GameAccess {
+  visibility: GameVisibility
+  // Empty for no password
+  password: string
+  require_approval: boolean
+}
+
+export const DEFAULT_GAME_ACCESS: GameAccess = {
+  visibility: 'public',
+  password: '',
+  require_approval: false
+}
+
+// No 0/O or 1/I, so codes survive being read aloud
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const INVITE_CODE_LENGTH = 6
+const INVITE_PARAM = 'invite'
+
+export class AccessError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AccessError'
+  }
+}
+
+export function createInviteCode(): string {
+  const bytes = new Uint8Array(INVITE_CODE_LENGTH)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, b => INVITE_ALPHABET[b % INVITE_ALPHABET.length]).join('')
+}
+
+export function getInviteLink(code: string): string {
+  return `${window.location.origin}${window.location.pathname}?${INVITE_PARAM}=${code}`
+}
+
+// Takes an invite code from the page URL, removing it so a reload or a
+// shared screenshot doesn't reuse it
+export function takeInviteCodeFromUrl(): string | null {
+  const url = new URL(window.location.href)
+  const code = url.searchParams.get(INVITE_PARAM)
+  if (code) {
+    url.searchParams.delete(INVITE_PARAM)
+    window.history.replaceState(null, '', url.toString())
+  }
+  return code
+}
+
+export async function hashPassword(gameId: string, password: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${gameId}:${password}`))
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// The access fields of a new game
+export async function toAccessFields(gameId: string, access: GameAccess) {
+  return {
+    visibility: access.visibility,
+    invite_code: createInviteCode(),
+    password_hash: access.password ? await hashPassword(gameId, access.password) : '',
+    require_approval: access.require_approval
+  }
+}
+
+export const isListedGame = (game: { visibility?: string }) => game.visibility !== 'private'
+
+export const hasPassword = (game: { password_hash?: string | null }) => Boolean(game.password_hash)
+
+const joinRequestId = (gameId: string, userId: string) => `join_${gameId}_${userId}`
+
+export async function getJoinRequest(gameId: string, userId: string): Promise<JoinRequest | null> {
+  return getJoinRequestRow(joinRequestId(gameId, userId))
+}
+
+export async function listPendingJoinRequests(gameId: string): Promise<JoinRequest[]> {
+  return listJoinRequests(gameId, 'pending')
+}
+
+// Files the user's request, or reopens the one they already have
+async function fileJoinRequest(
+  game: Game,
+  user: { id: string; email?: string },
+  existing: JoinRequest | null,
+  status: JoinRequestStatus
+) {
+  if (existing) {
+    await updateJoinRequest(existing.id, { status })
+  } else {
+    await createJoinRequest({
+      id: joinRequestId(game.id, user.id),
+      game_id: game.id,
+      user_id: user.id,
+      user_name: user.email?.split('@')[0] || 'A hero',
+      status
+    })
+  }
+}
+
+// Checks the password and, where the host vets new heroes, files a request.
+// A correct password with no vetting is recorded as an approved request, so
+// joinGame can tell it was given. Resolves to 'approved' once the user may
+// create a character.
+export async function requestToJoin(
+  game: Game,
+  user: { id: string; email?: string },
+  password: string
+): Promise<JoinRequestStatus> {
+  if (game.host_user_id === user.id) return 'approved'
+
+  if (hasPassword(game) && (await hashPassword(game.id, password)) !== game.password_hash) {
+    throw new AccessError('Incorrect password')
+  }
+  if (!game.require_approval && !hasPassword(game)) return 'approved'
+
+  // A declined hero may ask again; anything else stands
+  const existing = await getJoinRequest(game.id, user.id)
+  if (existing && existing.status !== 'declined') return existing.status
+
+  if (!game.require_approval) {
+    await fileJoinRequest(game, user, existing, 'approved')
+    return 'approved'
+  }
+
+  await fileJoinRequest(game, user, existing, 'pending')
+  await notifyGameChanged(game.id, 'access')
+  return 'pending'
+}
+
+// The seat-side half of the lobby's checks, so a hero who skips the lobby
+// still cannot sit down without the password or the host's approval
+export async function assertMayJoin(game: Game, userId: string) {
+  if (game.host_user_id === userId) return
+  if (!game.require_approval && !hasPassword(game)) return
+
+  const request = await getJoinRequest(game.id, userId)
+  if (request?.status !== 'approved') {
+    throw new AccessError(
+      game.require_approval ? 'The host has not approved you for this game' : 'Enter the game password in the lobby first'
+    )
+  }
+}
+
+export async function respondToJoinRequest(request: JoinRequest, approved: boolean) {
+  await updateJoinRequest(request.id, { status: approved ? 'approved' : 'declined' })
+  await notifyGameChanged(request.game_id, 'access')
+}
@@ -0,0 +1,215 @@
+import { abilityScoresFromDice } from './dice'
+import { getPurchaseOffer, getRevivableTargets, getTile } from './engine'
+import { getItem } from './items'
+import { rollForGame } from './persistence'
+import { createPlayer, listPlayers } from './repository'
+import { getTableDriver } from './presence'
+import { claimSeat, createPlayerId, syncPlayerCount } from './seats'
+import { notifyGameChanged } from './sync'
+import { loadEngineState, runAction, takeActionRoll, takeMovementRoll } from './turns'
+import type { Player } from './models'
+import type { EnginePlayer, EngineState, EngineTile, GameSettings } from './types'
+
+export type AiDifficulty = 'easy' | 'normal' | 'hard'
+export type AiPersonality = 'cautious' | 'balanced' | 'greedy'
+
+export const AI_DIFFICULTIES: Record<AiDifficulty, { label: string; description: string }> = {
+  easy: { label: 'Easy', description: 'Spends freely and often runs out of gold' },
+  normal: { label: 'Normal', description: 'Keeps a gold reserve that suits its personality' },
+  hard: { label: 'Hard', description: 'Only buys properties that pay for themselves' }
+}
+
+export const AI_PERSONALITIES: Record<AiPersonality, { label: string; reserve: number }> = {
+  cautious: { label: 'Cautious', reserve: 800 },
+  balanced: { label: 'Balanced', reserve: 400 },
+  greedy: { label: 'Greedy', reserve: 100 }
+}
+
+const AI_ROSTER = [
+  { name: 'Sir Aldric', characterClass: 'Fighter', avatar: '⚔️' },
+  { name: 'Vex Nightshade', characterClass: 'Rogue', avatar: '🛡️' },
+  { name: 'Morgana the Grey', characterClass: 'Wizard', avatar: '🧙‍♂️' },
+  { name: 'Thorne Ashwood', characterClass: 'Ranger', avatar: '🏹' },
+  { name: 'Sister Elowen', characterClass: 'Cleric', avatar: '⛪' },
+  { name: 'Ember Vale', characterClass: 'Sorcerer', avatar: '✨' }
+]
+
+const AI_HEAL_BELOW = 40
+
+// Pause between AI steps so other players can follow along
+const AI_STEP_DELAY_MS = 1200
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const toDifficulty = (value: string): AiDifficulty =>
+  value in AI_DIFFICULTIES ? (value as AiDifficulty) : 'normal'
+
+const toPersonality = (value: string | null): AiPersonality =>
+  value && value in AI_PERSONALITIES ? (value as AiPersonality) : 'balanced'
+
+export function shouldBuyProperty(
+  player: EnginePlayer,
+  tile: EngineTile,
+  difficulty: AiDifficulty,
+  personality: AiPersonality
+): boolean {
+  const remaining = player.gold - tile.purchase_price
+  if (remaining < 0) return false
+  if (difficulty === 'easy') return true
+  if (remaining < AI_PERSONALITIES[personality].reserve) return false
+  if (difficulty === 'hard') {
+    // Pays back within ten visits
+    return tile.rent_price * 10 >= tile.purchase_price
+  }
+  return true
+}
+
+// AI heroes drink potions when hurt and ready any item that helps the
+// check they are about to make. Teleports are left alone.
+export function chooseAiItems(player: EnginePlayer, tileType: string | null): string[] {
+  return player.inventory.filter(itemId => {
+    const effect = getItem(itemId)?.effect
+    if (!effect) return false
+    if (effect.type === 'heal') return tileType === null && player.health <= AI_HEAL_BELOW
+    if (tileType === null) return false
+    if (effect.type === 'reroll') return true
+    return effect.type === 'check_bonus' && (effect.tile_types === null || effect.tile_types.includes(tileType))
+  })
+}
+
+// Items are picked one at a time against the hero as they are now, since
+// each one used (a potion most of all) changes what the next should be
+const nextAiItem = (state: EngineState, playerId: string, tileType: string | null): string | undefined =>
+  chooseAiItems(state.players.find(p => p.id === playerId)!, tileType)[0]
+
+// The AI turn is driven by the table's driver, so it still goes on when
+// the AI has taken over every seat. This client is plainly here, whatever
+// its last loaded heartbeat says.
+export function isAiDriver(players: Player[], userId: string, now = Date.now()) {
+  const seen = players.map(p => (p.user_id === userId ? { ...p, last_seen_at: now } : p))
+  return getTableDriver(seen, now)?.user_id === userId
+}
+
+// Seats every empty player number up to the game's capacity with an AI hero.
+// Seats a human claims in the meantime are skipped.
+export async function fillAiSeats(gameId: string, settings: GameSettings, personality: AiPersonality) {
+  const existing = await listPlayers(gameId)
+  const taken = new Set(existing.map(p => p.player_number))
+  const names = new Set(existing.map(p => p.character_name))
+  const roster = AI_ROSTER.filter(c => !names.has(c.name))
+
+  let created = 0
+  for (let seat = 1; seat <= settings.max_players; seat++) {
+    const playerId = createPlayerId()
+    if (taken.has(seat) || !(await claimSeat(gameId, seat, null, playerId))) continue
+
+    const character = roster[created % roster.length]
+    const roll = await rollForGame(gameId, { purpose: 'ability_scores', count: 24, sides: 6, stream: `ai:${seat}` })
+    const [strength, dexterity, constitution, intelligence, wisdom, charisma] = abilityScoresFromDice(roll.values)
+
+    await createPlayer({
+      id: playerId,
+      game_id: gameId,
+      user_id: null,
+      player_number: seat,
+      character_name: character.name,
+      character_class: character.characterClass,
+      position: 0,
+      health: settings.starting_health,
+      gold: settings.starting_gold,
+      inventory: [],
+      boons: [],
+      properties: [],
+      is_ai: true,
+      ai_controlled: false,
+      ai_personality: personality,
+      status: 'active',
+      knockouts: 0,
+      last_seen_at: null,
+      avatar: character.avatar,
+      strength,
+      dexterity,
+      constitution,
+      intelligence,
+      wisdom,
+      charisma
+    })
+    created++
+  }
+
+  if (created > 0) {
+    await notifyGameChanged(gameId, 'players')
+  }
+  return syncPlayerCount(gameId)
+}
+
+const currentAiPlayer = (state: EngineState) => {
+  const player = state.players.find(p => p.player_number === state.game.current_player)
+  return state.game.status === 'active' && (player?.is_ai || player?.ai_controlled) ? player : null
+}
+
+// Plays the current AI player's whole turn: move, maybe buy, face the
+// tile and pass the turn on. Does nothing if it is not an AI's turn.
+export async function playAiTurn(gameId: string, onStep?: () => void) {
+  let state = await loadEngineState(gameId)
+  const player = currentAiPlayer(state)
+  if (!player) return
+
+  const difficulty = toDifficulty(state.game.ai_difficulty)
+  const personality = toPersonality(player.ai_personality)
+
+  // Returns false once the game has ended, so the turn stops there
+  const step = async (next: Promise<{ state: EngineState }>) => {
+    state = (await next).state
+    onStep?.()
+    await wait(AI_STEP_DELAY_MS)
+    return state.game.status === 'active'
+  }
+
+  if (player.status === 'eliminated') {
+    await step(runAction(state, { type: 'end_turn', playerId: player.id }))
+    return
+  }
+
+  // Each step only runs in its own phase, so a turn interrupted by a
+  // reload picks up where it left off
+  if (state.game.turn_phase === 'awaiting_move') {
+    if (player.status === 'downed') {
+      await step(runAction(state, { type: 'recover', playerId: player.id }))
+      return
+    }
+
+    // Healers pick up fallen heroes before setting off
+    for (const target of getRevivableTargets(state, player.id)) {
+      if (!(await step(runAction(state, { type: 'revive', playerId: player.id, targetId: target.id })))) return
+    }
+
+    let itemId: string | undefined
+    while ((itemId = nextAiItem(state, player.id, null))) {
+      if (!(await step(runAction(state, { type: 'use_item', playerId: player.id, itemId })))) return
+    }
+
+    if (!(await step(takeMovementRoll(state, player.id)))) return
+  }
+
+  if (state.game.turn_phase === 'awaiting_action') {
+    const mover = state.players.find(p => p.id === player.id)!
+    const tile = getTile(state, mover.position)
+    let itemId: string | undefined
+    while (tile && (itemId = nextAiItem(state, player.id, tile.tile_type))) {
+      if (!(await step(runAction(state, { type: 'use_item', playerId: player.id, itemId })))) return
+    }
+
+    // A knockout on the encounter still leaves the turn to pass on
+    if (!(await step(takeActionRoll(state, player.id)))) return
+  }
+
+  if (state.game.turn_phase === 'awaiting_purchase') {
+    const offer = getPurchaseOffer(state, player.id)
+    const buyer = state.players.find(p => p.id === player.id)!
+    const type = offer && shouldBuyProperty(buyer, offer, difficulty, personality) ? 'buy_property' : 'decline_purchase'
+    if (!(await step(runAction(state, { type, playerId: player.id })))) return
+  }
+
+  await step(runAction(state, { type: 'end_turn', playerId: player.id }))
+}
@@ -0,0 +1,133 @@
+import shadowRealmBoard from './boards/shadow-realm.json'
+import type { EngineTile } from './types'
+
+// Boards are plain JSON so new ones can be authored without code changes.
+// `format_version` tracks the shape of the file itself; `version` is the
+// board author's own revision number.
+
+export const BOARD_FORMAT_VERSION = 1
+export const DEFAULT_BOARD_ID = 'shadow-realm'
+
+export const TILE_TYPES = ['start', 'property', 'monster', 'treasure', 'event', 'trap'] as const
+
+export interface BoardRegion {
+  name: string
+  color: string
+}
+
+export interface BoardDefinition {
+  format_version: number
+  id: string
+  name: string
+  version: string
+  description: string
+  regions: BoardRegion[]
+  tiles: EngineTile[]
+}
+
+export class BoardValidationError extends Error {
+  problems: string[]
+
+  constructor(boardId: string, problems: string[]) {
+    super(`Board "${boardId}" is invalid: ${problems.join('; ')}`)
+    this.name = 'BoardValidationError'
+    this.problems = problems
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export function validateBoard(data: unknown): BoardDefinition {
+  if (!isRecord(data)) {
+    throw new BoardValidationError('unknown', ['definition must be an object'])
+  }
+
+  const id = typeof data.id === 'string' ? data.id : 'unknown'
+  const problems: string[] = []
+
+  if (data.format_version !== BOARD_FORMAT_VERSION) {
+    problems.push(`unsupported format_version ${data.format_version}`)
+  }
+  for (const field of ['id', 'name', 'version']) {
+    if (typeof data[field] !== 'string' || !data[field]) {
+      problems.push(`missing ${field}`)
+    }
+  }
+
+  const regions: unknown[] = Array.isArray(data.regions) ? data.regions : []
+  const regionNames = new Set(regions.filter(isRecord).map(r => r.name))
+  if (regionNames.size === 0) {
+    problems.push('at least one region is required')
+  }
+
+  const tiles: unknown[] = Array.isArray(data.tiles) ? data.tiles : []
+  if (tiles.length === 0) {
+    problems.push('at least one tile is required')
+  }
+
+  tiles.forEach((tile, index) => {
+    if (!isRecord(tile)) {
+      problems.push(`tile ${index} is not an object`)
+      return
+    }
+    if (tile.position !== index) {
+      problems.push(`tile ${index} has position ${tile.position}; positions must run 0..${tiles.length - 1}`)
+    }
+    if (!TILE_TYPES.includes(tile.tile_type)) {
+      problems.push(`tile ${index} has unknown type "${tile.tile_type}"`)
+    }
+    if (!regionNames.has(tile.region)) {
+      problems.push(`tile ${index} is in undeclared region "${tile.region}"`)
+    }
+    if (typeof tile.name !== 'string' || !tile.name) {
+      problems.push(`tile ${index} has no name`)
+    }
+    if (!Number.isFinite(tile.purchase_price) || tile.purchase_price < 0) {
+      problems.push(`tile ${index} has an invalid purchase_price`)
+    }
+    if (!Number.isFinite(tile.rent_price) || tile.rent_price < 0) {
+      problems.push(`tile ${index} has an invalid rent_price`)
+    }
+  })
+
+  if (isRecord(tiles[0]) && tiles[0].tile_type !== 'start') {
+    problems.push('tile 0 must be the start tile')
+  }
+
+  if (problems.length > 0) {
+    throw new BoardValidationError(id, problems)
+  }
+
+  return data as unknown as BoardDefinition
+}
+
+const BUNDLED_BOARDS: Record<string, unknown> = {
+  [DEFAULT_BOARD_ID]: shadowRealmBoard
+}
+
+const validated = new Map<string, BoardDefinition>()
+
+export function listBoards(): { id: string; name: string }[] {
+  return Object.keys(BUNDLED_BOARDS).map(id => {
+    const board = getBoard(id)
+    return { id: board.id, name: board.name }
+  })
+}
+
+// Looks up a bundled board, falling back to the default for games created
+// before boards were selectable
+export function getBoard(boardId?: string | null): BoardDefinition {
+  const id = boardId && boardId in BUNDLED_BOARDS ? boardId : DEFAULT_BOARD_ID
+
+  let board = validated.get(id)
+  if (!board) {
+    board = validateBoard(BUNDLED_BOARDS[id])
+    validated.set(id, board)
+  }
+  return board
+}
+
+export function getRegionColor(board: BoardDefinition, region: string): string {
+  return board.regions.find(r => r.name === region)?.color ?? '#6B7280'
+}
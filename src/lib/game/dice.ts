@@ -0,0 +1,64 @@
+// Deterministic dice. Every roll in a game is derived from the game's seed,
+// the roll's index and the stream it was rolled for, so any recorded roll
+// can be recomputed and checked later.
+
+export interface DiceRoll {
+  index: number
+  stream: string
+  purpose: string
+  count: number
+  sides: number
+  values: number[]
+}
+
+// xmur3 string hash, folded to a single 32-bit value
+const hashString = (input: string) => {
+  let h = 1779033703 ^ input.length
+  for (let i = 0; i < input.length; i++) {
+    h = Math.imul(h ^ input.charCodeAt(i), 3432918353)
+    h = (h << 13) | (h >>> 19)
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507)
+  h = Math.imul(h ^ (h >>> 13), 3266489909)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+// mulberry32 generator returning floats in [0, 1)
+export function createRng(seed: string) {
+  let state = hashString(seed)
+  return () => {
+    state = (state + 0x6D2B79F5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function createSeed(): string {
+  const bytes = new Uint32Array(2)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, b => b.toString(36)).join('')
+}
+
+export function rollDice(seed: string, index: number, count: number, sides: number, stream: string): number[] {
+  const next = createRng(`${seed}:${stream}:${index}`)
+  return Array.from({ length: count }, () => Math.floor(next() * sides) + 1)
+}
+
+export function verifyRoll(seed: string, roll: DiceRoll): boolean {
+  const expected = rollDice(seed, roll.index, roll.count, roll.sides, roll.stream)
+  return expected.length === roll.values.length && expected.every((value, i) => value === roll.values[i])
+}
+
+// Returns every recorded roll that does not match what the seed produces
+export function findTamperedRolls(seed: string, rolls: DiceRoll[]): DiceRoll[] {
+  return rolls.filter(roll => !verifyRoll(seed, roll))
+}
+
+// Turns 24d6 into six ability scores using 4d6 drop lowest
+export function abilityScoresFromDice(values: number[]): number[] {
+  return Array.from({ length: 6 }, (_, i) => {
+    const sorted = values.slice(i * 4, i * 4 + 4).sort((a, b) => b - a)
+    return sorted.slice(0, 3).reduce((sum, roll) => sum + roll, 0)
+  })
+}
@@ -0,0 +1,146 @@
+import { STATUS_EFFECTS, treasureItemFor, treasureItemsUpTo, type StatusEffect } from './items'
+
+// A tile encounter's mechanical outcome. The narrator proposes one along
+// with its story and the engine clamps it to what the check total allows.
+// A story whose proposal had to be changed is not told; the local narrator
+// tells the clamped outcome instead, so prose and numbers always agree.
+
+export interface EncounterOutcome {
+  health_change: number
+  gold_change: number
+  item_id: string | null
+  status_effect: StatusEffect | null
+  narration: string
+}
+
+export interface EncounterBounds {
+  health: [number, number]
+  gold: [number, number]
+  items: string[]
+  status_effects: StatusEffect[]
+}
+
+// JSON schema handed to the narrator for structured output
+export const ENCOUNTER_SCHEMA = {
+  type: 'object',
+  properties: {
+    health_change: { type: 'integer' },
+    gold_change: { type: 'integer' },
+    item_id: { type: ['string', 'null'] },
+    status_effect: { type: ['string', 'null'], enum: [...Object.keys(STATUS_EFFECTS), null] },
+    narration: { type: 'string' }
+  },
+  required: ['health_change', 'gold_change', 'item_id', 'status_effect', 'narration']
+}
+
+const NOTHING: EncounterBounds = { health: [0, 0], gold: [0, 0], items: [], status_effects: [] }
+
+// What an encounter may do to a hero for a given tile type and check total
+export function getEncounterBounds(tileType: string, total: number): EncounterBounds {
+  switch (tileType) {
+    case 'monster':
+      if (total >= 15) {
+        return { ...NOTHING, gold: [25, 50 + total * 5], items: ['healing_potion', 'silvered_blade'], status_effects: ['blessed'] }
+      }
+      if (total <= 8) {
+        return { ...NOTHING, health: [-25, -10], gold: [-20, 0], status_effects: ['cursed'] }
+      }
+      return { ...NOTHING, health: [-10, 0], gold: [0, 30] }
+
+    case 'treasure':
+      return {
+        ...NOTHING,
+        gold: [25 + total * 2, 25 + total * 4],
+        items: treasureItemsUpTo(total),
+        status_effects: total >= 15 ? ['blessed'] : []
+      }
+
+    case 'trap':
+      if (total < 12) {
+        return { ...NOTHING, health: [-15, -5], status_effects: ['cursed'] }
+      }
+      return { ...NOTHING, gold: [0, 20] }
+
+    case 'event':
+      if (total >= 12) {
+        return { ...NOTHING, health: [0, 10], gold: [10, 50], status_effects: ['blessed'] }
+      }
+      if (total <= 6) {
+        return { ...NOTHING, health: [-10, 0], gold: [-40, -10], status_effects: ['cursed'] }
+      }
+      return { ...NOTHING, gold: [-10, 10] }
+
+    default:
+      if (total >= 15) return { ...NOTHING, gold: [0, 20] }
+      if (total <= 5) return { ...NOTHING, health: [-5, 0] }
+      return NOTHING
+  }
+}
+
+// The fixed table used when there is no narrator outcome to apply
+export function defaultOutcome(tileType: string, total: number): EncounterOutcome {
+  const outcome: EncounterOutcome = { health_change: 0, gold_change: 0, item_id: null, status_effect: null, narration: '' }
+
+  switch (tileType) {
+    case 'monster':
+      if (total >= 15) {
+        outcome.gold_change = 50 + (total * 5) // Victory reward
+      } else if (total <= 8) {
+        outcome.health_change = -15 // Take damage
+      }
+      break
+
+    case 'treasure':
+      outcome.gold_change = 25 + (total * 3) // Better rolls = more treasure
+      outcome.item_id = treasureItemFor(total)
+      break
+
+    case 'trap':
+      if (total < 12) {
+        outcome.health_change = -10 // Sprung the trap
+      }
+      break
+
+    case 'event':
+      if (total >= 12) {
+        outcome.gold_change = 30 // Good event
+      } else if (total <= 6) {
+        outcome.gold_change = -20 // Bad event
+      }
+      break
+  }
+
+  return outcome
+}
+
+const clamp = (value: unknown, [min, max]: [number, number], fallback: number) => {
+  const number = typeof value === 'number' ? Math.round(value) : NaN
+  return Number.isFinite(number) ? Math.max(min, Math.min(max, number)) : fallback
+}
+
+// Forces an untrusted outcome inside the bounds. Malformed numbers fall
+// back to the fixed table; items and effects not allowed at this total are
+// dropped rather than rejected.
+export function clampOutcome(outcome: unknown, bounds: EncounterBounds, fallback: EncounterOutcome): EncounterOutcome {
+  const raw = typeof outcome === 'object' && outcome !== null ? (outcome as Record<string, unknown>) : {}
+
+  return {
+    health_change: clamp(raw.health_change, bounds.health, fallback.health_change),
+    gold_change: clamp(raw.gold_change, bounds.gold, fallback.gold_change),
+    item_id: bounds.items.includes(raw.item_id as string) ? (raw.item_id as string) : null,
+    status_effect: bounds.status_effects.includes(raw.status_effect as StatusEffect)
+      ? (raw.status_effect as StatusEffect)
+      : null,
+    narration: typeof raw.narration === 'string' ? raw.narration.trim() : ''
+  }
+}
+
+// Whether clamping left the narrator's proposal exactly as it was, so its
+// story still describes what will happen
+export function matchesProposal(proposal: unknown, outcome: EncounterOutcome): boolean {
+  const raw = typeof proposal === 'object' && proposal !== null ? (proposal as Record<string, unknown>) : {}
+  return raw.health_change === outcome.health_change &&
+    raw.gold_change === outcome.gold_change &&
+    (raw.item_id ?? null) === outcome.item_id &&
+    (raw.status_effect ?? null) === outcome.status_effect
+}
@@ -0,0 +1,424 @@
+import { getCheckModifier, getPurchasePrice } from './abilities'
+import { checkVictory } from './victory'
+import { getItem, getItemCheck, MAX_INVENTORY, STATUS_EFFECTS, toBoon } from './items'
+import { clampOutcome, defaultOutcome, getEncounterBounds, type EncounterOutcome } from './encounters'
+import type {
+  DeathRules,
+  EngineAction,
+  EngineEvent,
+  EnginePlayer,
+  EngineResult,
+  EngineState,
+  EngineTile,
+  TurnPhase
+} from './types'
+
+export const DEFAULT_DEATH_RULES: DeathRules = {
+  mode: 'lose_turn',
+  recover_health: 50,
+  respawn_gold_penalty: 100,
+  eliminate_after: 3
+}
+
+export const DEATH_MODES: Record<DeathRules['mode'], string> = {
+  lose_turn: 'Downed heroes lose a turn',
+  respawn: 'Respawn at the Portal for gold'
+}
+
+// Actions each turn phase accepts. Items can be used at any point, though
+// movement items only before the roll (see applyItem).
+export const PHASE_ACTIONS: Record<TurnPhase, EngineAction['type'][]> = {
+  awaiting_move: ['roll_movement', 'recover', 'revive', 'use_item'],
+  awaiting_action: ['resolve_tile', 'use_item', 'end_turn'],
+  awaiting_purchase: ['buy_property', 'decline_purchase', 'use_item', 'end_turn'],
+  done: ['use_item', 'end_turn']
+}
+
+// Classes able to bring a downed hero back on their own turn
+export const REVIVER_CLASSES = ['Cleric']
+
+export class EngineError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EngineError'
+  }
+}
+
+export function getTile(state: EngineState, position: number): EngineTile | undefined {
+  return state.tiles.find(t => t.position === position)
+}
+
+// Heroes start at full health, so the starting health is also the cap
+export function getMaxHealth(state: EngineState): number {
+  return state.game.settings.starting_health
+}
+
+export function getOwner(state: EngineState, position: number): EnginePlayer | undefined {
+  return state.players.find(p => p.properties.includes(position))
+}
+
+// Seats are taken in player_number order; gaps left by missing players are
+// skipped and the turn counter advances when play wraps to the first seat.
+export function getNextSeat(state: EngineState): { playerNumber: number; wrapped: boolean } {
+  const seats = state.players
+    .filter(p => p.status !== 'eliminated')
+    .map(p => p.player_number)
+    .sort((a, b) => a - b)
+  if (seats.length === 0) {
+    return { playerNumber: state.game.current_player, wrapped: false }
+  }
+
+  const next = seats.find(seat => seat > state.game.current_player)
+  return next === undefined
+    ? { playerNumber: seats[0], wrapped: true }
+    : { playerNumber: next, wrapped: false }
+}
+
+// Downed heroes the given player could revive right now
+export function getRevivableTargets(state: EngineState, playerId: string): EnginePlayer[] {
+  const player = state.players.find(p => p.id === playerId)
+  if (!player || player.status !== 'active' || !REVIVER_CLASSES.includes(player.character_class)) {
+    return []
+  }
+  return state.players.filter(p => p.id !== playerId && p.status === 'downed')
+}
+
+// The property the player is standing on, if it is for sale and affordable
+export function getPurchaseOffer(state: EngineState, playerId: string): EngineTile | null {
+  const player = state.players.find(p => p.id === playerId)
+  if (!player) return null
+
+  const tile = getTile(state, player.position)
+  if (!tile || tile.tile_type !== 'property' || tile.purchase_price <= 0) return null
+  if (getOwner(state, tile.position)) return null
+
+  // Offers carry the price this player would actually pay
+  const price = getPurchasePrice(player, tile.purchase_price)
+  if (player.gold < price) return null
+
+  return { ...tile, purchase_price: price }
+}
+
+// Applies a single action and returns the next state plus what happened.
+// The input state is never mutated.
+export function applyAction(state: EngineState, action: EngineAction): EngineResult {
+  const player = state.players.find(p => p.id === action.playerId)
+  if (!player) {
+    throw new EngineError('Player not found')
+  }
+  if (state.game.status !== 'active') {
+    throw new EngineError(state.game.status === 'finished' ? 'The game is over' : 'The game has not started')
+  }
+  if (state.game.current_player !== player.player_number) {
+    throw new EngineError('It is not your turn')
+  }
+  // A hero knocked out mid-turn can still pass the turn on
+  if (player.status === 'eliminated' && action.type !== 'end_turn') {
+    throw new EngineError('You have been eliminated')
+  }
+  if (player.status === 'downed' && action.type !== 'recover' && action.type !== 'end_turn') {
+    throw new EngineError('You are downed and must recover first')
+  }
+  // The eliminated have nothing left to do but pass
+  const passing = player.status === 'eliminated' && action.type === 'end_turn'
+  if (!passing && !PHASE_ACTIONS[state.game.turn_phase].includes(action.type)) {
+    throw new EngineError('That action is not available right now')
+  }
+
+  return checkVictory(dispatch(state, player, action))
+}
+
+const dispatch = (state: EngineState, player: EnginePlayer, action: EngineAction): EngineResult => {
+  switch (action.type) {
+    case 'roll_movement':
+      return rollMovement(state, player, action.dice, action.rollIndex)
+    case 'resolve_tile':
+      return resolveTile(state, player, action.roll, action.reroll, action.rollIndex, action.outcome)
+    case 'buy_property':
+      return buyProperty(state, player)
+    case 'decline_purchase':
+      return { state: setPhase(state, 'done'), events: [] }
+    case 'end_turn':
+      return endTurn(state, player)
+    case 'recover':
+      return recover(state, player)
+    case 'revive':
+      return revive(state, player, action.targetId)
+    case 'use_item':
+      return applyItem(state, player, action.itemId)
+  }
+}
+
+const setPhase = (state: EngineState, turnPhase: TurnPhase): EngineState => ({
+  ...state,
+  game: { ...state.game, turn_phase: turnPhase }
+})
+
+const updatePlayer = (state: EngineState, id: string, changes: Partial<EnginePlayer>): EngineState => ({
+  ...state,
+  players: state.players.map(p => (p.id === id ? { ...p, ...changes } : p))
+})
+
+const rollMovement = (state: EngineState, player: EnginePlayer, dice: number[], rollIndex?: number): EngineResult => {
+  const total = dice.reduce((sum, roll) => sum + roll, 0)
+  const boardSize = state.tiles.length
+  if (boardSize === 0) {
+    throw new EngineError('The board has no tiles')
+  }
+  const to = (player.position + total) % boardSize
+  const events: EngineEvent[] = [
+    { type: 'moved', playerId: player.id, dice, total, from: player.position, to, rollIndex }
+  ]
+
+  let next = updatePlayer(state, player.id, { position: to })
+
+  // Passing or landing on the Shadow Portal (tile 0) pays a bonus
+  if (player.position + total >= boardSize) {
+    const { pass_start_bonus, house_rules } = state.game.settings
+    const bonus = house_rules.double_on_exact_landing && to === 0 ? pass_start_bonus * 2 : pass_start_bonus
+    next = updatePlayer(next, player.id, { gold: player.gold + bonus })
+    events.push({ type: 'passed_start', playerId: player.id, bonus })
+  }
+
+  const rent = collectRent(next, player.id)
+  return { state: setPhase(rent.state, 'awaiting_action'), events: [...events, ...rent.events] }
+}
+
+// Landing on another player's property charges its rent, capped at what
+// the visitor can actually pay
+const collectRent = (state: EngineState, playerId: string): EngineResult => {
+  const player = state.players.find(p => p.id === playerId)!
+  const tile = getTile(state, player.position)
+  const owner = tile ? getOwner(state, tile.position) : undefined
+
+  if (!tile || !owner || owner.id === player.id || tile.rent_price <= 0) {
+    return { state, events: [] }
+  }
+  if (state.game.settings.house_rules.no_rent_while_downed && owner.status !== 'active') {
+    return { state, events: [] }
+  }
+
+  const amount = Math.min(tile.rent_price, player.gold)
+  if (amount <= 0) {
+    return { state, events: [] }
+  }
+
+  let next = updatePlayer(state, player.id, { gold: player.gold - amount })
+  next = updatePlayer(next, owner.id, { gold: owner.gold + amount })
+
+  return {
+    state: next,
+    events: [{ type: 'rent_paid', playerId: player.id, ownerId: owner.id, position: tile.position, amount }]
+  }
+}
+
+const resolveTile = (
+  state: EngineState,
+  player: EnginePlayer,
+  dieRoll: number,
+  reroll?: number,
+  rollIndex?: number,
+  proposed?: EncounterOutcome
+): EngineResult => {
+  const tile = getTile(state, player.position)
+  if (!tile) {
+    throw new EngineError('Tile not found')
+  }
+
+  // The outcome is decided by the check total, not the bare die. Item boons
+  // for this kind of tile are spent on the check.
+  const modifier = getCheckModifier(player, tile.tile_type)
+  const itemCheck = getItemCheck(player, tile.tile_type)
+  const roll = itemCheck.reroll && reroll !== undefined ? Math.max(dieRoll, reroll) : dieRoll
+  const checkModifier = modifier.total + itemCheck.bonus
+  const breakdown = [modifier.breakdown, ...itemCheck.parts].join(', ')
+  const total = roll + checkModifier
+
+  // Without a narrator proposal the fixed table decides on its own
+  const fallback = defaultOutcome(tile.tile_type, total)
+  const outcome = proposed
+    ? clampOutcome(proposed, getEncounterBounds(tile.tile_type, total), fallback)
+    : fallback
+
+  const events: EngineEvent[] = [
+    {
+      type: 'tile_resolved',
+      playerId: player.id,
+      roll,
+      modifier: checkModifier,
+      total,
+      breakdown,
+      position: tile.position,
+      rollIndex
+    }
+  ]
+
+  const health = Math.max(0, Math.min(getMaxHealth(state), player.health + outcome.health_change))
+  const gold = Math.max(0, player.gold + outcome.gold_change)
+
+  if (health !== player.health) {
+    events.push({ type: 'health_changed', playerId: player.id, amount: health - player.health })
+  }
+  if (gold !== player.gold) {
+    events.push({ type: 'gold_changed', playerId: player.id, amount: gold - player.gold })
+  }
+
+  let inventory = player.inventory
+  if (outcome.item_id && inventory.length < MAX_INVENTORY) {
+    inventory = [...inventory, outcome.item_id]
+    events.push({ type: 'item_found', playerId: player.id, itemId: outcome.item_id })
+  }
+
+  let boons = player.boons.filter(b => !itemCheck.boons.includes(b))
+  if (outcome.status_effect) {
+    boons = [...boons, STATUS_EFFECTS[outcome.status_effect].boon]
+    events.push({ type: 'status_effect_gained', playerId: player.id, effect: outcome.status_effect })
+  }
+
+  const next = updatePlayer(state, player.id, { health, gold, inventory, boons })
+  if (health === 0 && player.health > 0) {
+    const knockout = knockOut(next, player.id)
+    return { state: setPhase(knockout.state, 'done'), events: [...events, ...knockout.events] }
+  }
+
+  // An unowned property the hero can afford is offered before the turn ends
+  const phase = getPurchaseOffer(next, player.id) ? 'awaiting_purchase' : 'done'
+  return { state: setPhase(next, phase), events }
+}
+
+// A hero at 0 health is downed, respawned or eliminated per the game's rules
+const knockOut = (state: EngineState, playerId: string): EngineResult => {
+  const rules = state.game.settings.death_rules
+  const player = state.players.find(p => p.id === playerId)!
+  const knockouts = player.knockouts + 1
+  const events: EngineEvent[] = [{ type: 'player_downed', playerId, knockouts }]
+
+  if (rules.eliminate_after !== null && knockouts >= rules.eliminate_after) {
+    // Their holdings go back on the market
+    const next = updatePlayer(state, playerId, { status: 'eliminated', knockouts, properties: [] })
+    return { state: next, events: [...events, { type: 'player_eliminated', playerId }] }
+  }
+
+  if (rules.mode === 'respawn') {
+    const penalty = Math.min(player.gold, rules.respawn_gold_penalty)
+    const next = updatePlayer(state, playerId, {
+      knockouts,
+      position: 0,
+      health: rules.recover_health,
+      gold: player.gold - penalty
+    })
+    return {
+      state: next,
+      events: [...events, { type: 'player_respawned', playerId, health: rules.recover_health, penalty }]
+    }
+  }
+
+  return { state: updatePlayer(state, playerId, { status: 'downed', knockouts }), events }
+}
+
+// A downed hero spends their whole turn getting back on their feet
+const recover = (state: EngineState, player: EnginePlayer): EngineResult => {
+  if (player.status !== 'downed') {
+    throw new EngineError('You are not downed')
+  }
+
+  const health = state.game.settings.death_rules.recover_health
+  const recovered = updatePlayer(state, player.id, { status: 'active', health })
+  const passed = endTurn(recovered, player)
+
+  return {
+    state: passed.state,
+    events: [{ type: 'player_recovered', playerId: player.id, health }, ...passed.events]
+  }
+}
+
+const revive = (state: EngineState, player: EnginePlayer, targetId: string): EngineResult => {
+  const target = getRevivableTargets(state, player.id).find(p => p.id === targetId)
+  if (!target) {
+    throw new EngineError('That hero cannot be revived')
+  }
+
+  const health = state.game.settings.death_rules.recover_health
+  return {
+    state: updatePlayer(state, target.id, { status: 'active', health }),
+    events: [{ type: 'player_revived', playerId: player.id, targetId: target.id, health }]
+  }
+}
+
+// Using an item takes effect at once (healing, teleporting) or readies a
+// boon for the next action check. Either way the item is consumed.
+const applyItem = (state: EngineState, player: EnginePlayer, itemId: string): EngineResult => {
+  const index = player.inventory.indexOf(itemId)
+  const item = getItem(itemId)
+  if (index === -1 || !item) {
+    throw new EngineError('You do not have that item')
+  }
+
+  const inventory = player.inventory.filter((_, i) => i !== index)
+  const events: EngineEvent[] = [{ type: 'item_used', playerId: player.id, itemId }]
+
+  switch (item.effect.type) {
+    case 'heal': {
+      const health = Math.min(getMaxHealth(state), player.health + item.effect.amount)
+      if (health === player.health) {
+        throw new EngineError('You are already at full health')
+      }
+      events.push({ type: 'health_changed', playerId: player.id, amount: health - player.health })
+      return { state: updatePlayer(state, player.id, { inventory, health }), events }
+    }
+    case 'teleport': {
+      // Moving after the roll would change which tile is resolved or bought
+      if (state.game.turn_phase !== 'awaiting_move') {
+        throw new EngineError('Movement items can only be used before you roll')
+      }
+      if (!getTile(state, item.effect.position)) {
+        throw new EngineError('Tile not found')
+      }
+      // No Portal bonus: the hero did not walk past it
+      return { state: updatePlayer(state, player.id, { inventory, position: item.effect.position }), events }
+    }
+    default: {
+      const boon = toBoon(item)!
+      return { state: updatePlayer(state, player.id, { inventory, boons: [...player.boons, boon] }), events }
+    }
+  }
+}
+
+const buyProperty = (state: EngineState, player: EnginePlayer): EngineResult => {
+  const tile = getTile(state, player.position)
+  if (!tile || tile.tile_type !== 'property' || tile.purchase_price <= 0) {
+    throw new EngineError('This tile cannot be purchased')
+  }
+  if (getOwner(state, tile.position)) {
+    throw new EngineError('This property is already owned')
+  }
+  const price = getPurchasePrice(player, tile.purchase_price)
+  if (player.gold < price) {
+    throw new EngineError('Not enough gold')
+  }
+
+  const next = updatePlayer(state, player.id, {
+    gold: player.gold - price,
+    properties: [...player.properties, tile.position]
+  })
+
+  return {
+    state: setPhase(next, 'done'),
+    events: [
+      { type: 'property_bought', playerId: player.id, position: tile.position, price }
+    ]
+  }
+}
+
+const endTurn = (state: EngineState, player: EnginePlayer): EngineResult => {
+  const { playerNumber: nextPlayer, wrapped } = getNextSeat(state)
+  const turn = wrapped ? state.game.current_turn + 1 : state.game.current_turn
+
+  return {
+    state: {
+      ...state,
+      game: { ...state.game, current_player: nextPlayer, current_turn: turn, turn_phase: 'awaiting_move' }
+    },
+    events: [{ type: 'turn_ended', playerId: player.id, nextPlayer, turn }]
+  }
+}
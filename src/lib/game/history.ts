@@ -0,0 +1,28 @@
+import type { ChatMessage } from './models'
+
+// The chat log doubles as the game's history. Actions that happen on a tile
+// record its position in their metadata, so a tile's story can be rebuilt
+// from the log without a table of its own.
+
+// The tile a logged action happened on, if any
+export function getMessagePosition(metadata: ChatMessage['metadata']): number | null {
+  switch (metadata.action) {
+    case 'movement':
+      return typeof metadata.newPosition === 'number' ? metadata.newPosition : null
+    case 'tile_encounter':
+      return typeof metadata.tile?.position === 'number' ? metadata.tile.position : null
+    case 'check':
+    case 'purchase':
+    case 'rent':
+      return typeof metadata.position === 'number' ? metadata.position : null
+    default:
+      return null
+  }
+}
+
+// Newest first
+export function getTileHistory(messages: ChatMessage[], position: number): ChatMessage[] {
+  return messages
+    .filter(message => getMessagePosition(message.metadata) === position)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
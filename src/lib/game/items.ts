@@ -0,0 +1,147 @@
+import { formatModifier } from './abilities'
+import type { Boon, EnginePlayer } from './types'
+
+export type ItemKind = 'potion' | 'weapon' | 'scroll' | 'key'
+
+export type ItemEffect =
+  | { type: 'heal'; amount: number }
+  | { type: 'check_bonus'; amount: number; tile_types: string[] | null }
+  | { type: 'reroll' }
+  | { type: 'teleport'; position: number }
+
+export interface ItemDefinition {
+  id: string
+  name: string
+  kind: ItemKind
+  description: string
+  effect: ItemEffect
+}
+
+export const ITEM_CATALOG: Record<string, ItemDefinition> = {
+  healing_potion: {
+    id: 'healing_potion',
+    name: 'Healing Potion',
+    kind: 'potion',
+    description: 'Restores 30 health',
+    effect: { type: 'heal', amount: 30 }
+  },
+  greater_healing_potion: {
+    id: 'greater_healing_potion',
+    name: 'Greater Healing Potion',
+    kind: 'potion',
+    description: 'Restores 60 health',
+    effect: { type: 'heal', amount: 60 }
+  },
+  silvered_blade: {
+    id: 'silvered_blade',
+    name: 'Silvered Blade',
+    kind: 'weapon',
+    description: '+4 to your next check against a monster',
+    effect: { type: 'check_bonus', amount: 4, tile_types: ['monster'] }
+  },
+  scroll_of_fortune: {
+    id: 'scroll_of_fortune',
+    name: 'Scroll of Fortune',
+    kind: 'scroll',
+    description: 'Roll your next action check twice and keep the better',
+    effect: { type: 'reroll' }
+  },
+  scroll_of_insight: {
+    id: 'scroll_of_insight',
+    name: 'Scroll of Insight',
+    kind: 'scroll',
+    description: '+2 to your next action check',
+    effect: { type: 'check_bonus', amount: 2, tile_types: null }
+  },
+  portal_scroll: {
+    id: 'portal_scroll',
+    name: 'Portal Scroll',
+    kind: 'scroll',
+    description: 'Teleports you to the Shadow Portal',
+    effect: { type: 'teleport', position: 0 }
+  },
+  skeleton_key: {
+    id: 'skeleton_key',
+    name: 'Skeleton Key',
+    kind: 'key',
+    description: '+5 to your next check against a trap or treasure',
+    effect: { type: 'check_bonus', amount: 5, tile_types: ['trap', 'treasure'] }
+  }
+}
+
+// Heroes can carry only so much; treasure found with a full pack stays behind
+export const MAX_INVENTORY = 6
+
+// Treasure checks of at least this total also turn up an item
+export const ITEM_FIND_DC = 12
+
+// Better checks reach further down the table
+const TREASURE_TABLE = [
+  'healing_potion',
+  'scroll_of_insight',
+  'skeleton_key',
+  'portal_scroll',
+  'silvered_blade',
+  'scroll_of_fortune',
+  'greater_healing_potion'
+]
+
+export function getItem(itemId: string): ItemDefinition | undefined {
+  return ITEM_CATALOG[itemId]
+}
+
+export function treasureItemFor(total: number): string | null {
+  if (total < ITEM_FIND_DC) return null
+  return TREASURE_TABLE[Math.min(TREASURE_TABLE.length - 1, total - ITEM_FIND_DC)]
+}
+
+// Every item a check of this total could have turned up
+export function treasureItemsUpTo(total: number): string[] {
+  if (total < ITEM_FIND_DC) return []
+  return TREASURE_TABLE.slice(0, total - ITEM_FIND_DC + 1)
+}
+
+// Lingering effects an encounter can leave on a hero. They work like item
+// boons but come from the story rather than the pack.
+export type StatusEffect = 'blessed' | 'cursed'
+
+export const STATUS_EFFECTS: Record<StatusEffect, { name: string; boon: Boon }> = {
+  blessed: { name: 'Blessed', boon: { item_id: 'blessed', bonus: 2, tile_types: null, reroll: false } },
+  cursed: { name: 'Cursed', boon: { item_id: 'cursed', bonus: -2, tile_types: null, reroll: false } }
+}
+
+export function getBoonName(boon: Boon): string {
+  return getItem(boon.item_id)?.name ?? STATUS_EFFECTS[boon.item_id as StatusEffect]?.name ?? boon.item_id
+}
+
+export interface ItemCheck {
+  boons: Boon[]
+  bonus: number
+  reroll: boolean
+  // e.g. "Silvered Blade +4", for the check breakdown
+  parts: string[]
+}
+
+// Boons that will apply to the player's next check on this tile type
+export function getItemCheck(player: EnginePlayer, tileType: string): ItemCheck {
+  const boons = player.boons.filter(b => b.tile_types === null || b.tile_types.includes(tileType))
+  return {
+    boons,
+    bonus: boons.reduce((sum, b) => sum + b.bonus, 0),
+    reroll: boons.some(b => b.reroll),
+    parts: boons
+      .filter(b => b.bonus !== 0)
+      .map(b => `${getBoonName(b)} ${formatModifier(b.bonus)}`)
+  }
+}
+
+export function toBoon(item: ItemDefinition): Boon | null {
+  switch (item.effect.type) {
+    case 'check_bonus':
+      return { item_id: item.id, bonus: item.effect.amount, tile_types: item.effect.tile_types, reroll: false }
+    case 'reroll':
+      return { item_id: item.id, bonus: 0, tile_types: null, reroll: true }
+    default:
+      return null
+  }
+}
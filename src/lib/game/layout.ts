@@ -0,0 +1,148 @@
+import type { EngineTile } from './types'
+
+// Where tiles sit on the rendered board, in SVG units. Kept apart from the
+// renderer so the viewport can find a tile without drawing anything. Each
+// layout places tiles in board order; regions are then worked out from
+// wherever their tiles landed, so labels always sit next to their tiles.
+
+export type LayoutId = 'spiral' | 'ring' | 'serpentine'
+
+export const DEFAULT_LAYOUT: LayoutId = 'spiral'
+
+export interface TileRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface RegionZone {
+  name: string
+  positions: number[]
+  label: { x: number; y: number }
+}
+
+export interface BoardLayout {
+  id: LayoutId
+  width: number
+  height: number
+  // Indexed by tile position
+  tiles: TileRect[]
+  regions: RegionZone[]
+}
+
+interface Placement {
+  width: number
+  height: number
+  tiles: TileRect[]
+}
+
+const TILE_SIZE = 24
+
+// Every layout gives the start tile room for its label
+const START_WIDTH = 80
+
+const square = (centerX: number, centerY: number, width = TILE_SIZE): TileRect => ({
+  x: centerX - width / 2,
+  y: centerY - TILE_SIZE / 2,
+  width,
+  height: TILE_SIZE
+})
+
+// Octagonal spiral outwards from the start tile in the middle
+const placeSpiral = (count: number): Placement => {
+  const width = 800
+  const height = 750
+  const centerX = width / 2
+  const centerY = height / 2
+  const spacing = 28
+
+  const tiles = Array.from({ length: count }, (_, index) => {
+    if (index === 0) {
+      // Start tile at center
+      return square(centerX, centerY, START_WIDTH)
+    }
+
+    // Octagonal spiral calculation
+    const rings = Math.ceil(Math.sqrt(index / 8))
+    const ringStart = 8 * (rings - 1) * rings / 2
+    const posInRing = index - ringStart - 1
+    const sidesPerRing = 8 * rings
+    const tilesPerSide = sidesPerRing / 8
+
+    const side = Math.floor(posInRing / tilesPerSide)
+    const posOnSide = posInRing % tilesPerSide
+
+    const radius = rings * spacing
+    const angle = (side * Math.PI / 4) + (posOnSide / tilesPerSide) * (Math.PI / 4)
+
+    return square(centerX + Math.cos(angle) * radius, centerY + Math.sin(angle) * radius)
+  })
+
+  return { width, height, tiles }
+}
+
+// One big loop, like a classic property board
+const placeRing = (count: number): Placement => {
+  const spacing = 32
+  const margin = 80
+  const radius = Math.max(200, (count * spacing) / (2 * Math.PI))
+  const size = radius * 2 + margin * 2
+
+  const tiles = Array.from({ length: count }, (_, index) => {
+    // Start at the top and run clockwise
+    const angle = -Math.PI / 2 + (index / count) * Math.PI * 2
+    const x = size / 2 + Math.cos(angle) * radius
+    const y = size / 2 + Math.sin(angle) * radius
+    return square(x, y, index === 0 ? START_WIDTH : TILE_SIZE)
+  })
+
+  return { width: size, height: size, tiles }
+}
+
+// Rows that snake back and forth, so each region reads as a band
+const placeSerpentine = (count: number): Placement => {
+  const columns = 10
+  const cell = 64
+  const margin = 60
+  const rows = Math.ceil(count / columns)
+
+  const tiles = Array.from({ length: count }, (_, index) => {
+    const row = Math.floor(index / columns)
+    const column = row % 2 === 0 ? index % columns : columns - 1 - (index % columns)
+    const x = margin + column * cell + cell / 2
+    const y = margin + row * cell + cell / 2
+    return square(x, y, index === 0 ? cell - 8 : TILE_SIZE)
+  })
+
+  return { width: margin * 2 + columns * cell, height: margin * 2 + rows * cell, tiles }
+}
+
+export const LAYOUTS: Record<LayoutId, { name: string; place: (count: number) => Placement }> = {
+  spiral: { name: 'Spiral', place: placeSpiral },
+  ring: { name: 'Ring', place: placeRing },
+  serpentine: { name: 'Serpentine', place: placeSerpentine }
+}
+
+export function computeLayout(boardTiles: EngineTile[], layoutId: LayoutId): BoardLayout {
+  const { width, height, tiles } = (LAYOUTS[layoutId] ?? LAYOUTS[DEFAULT_LAYOUT]).place(boardTiles.length)
+
+  // Regions keep their board order; the start tile labels itself
+  const grouped = new Map<string, number[]>()
+  boardTiles
+    .filter(tile => tile.position !== 0)
+    .forEach(tile => grouped.set(tile.region, [...(grouped.get(tile.region) ?? []), tile.position]))
+
+  const regions = [...grouped.entries()].map(([name, positions]) => {
+    // Anchor the label just above the region's middle tile
+    const anchor = tiles[positions[Math.floor(positions.length / 2)]]
+    return { name, positions, label: { x: anchor.x + anchor.width / 2, y: anchor.y - 8 } }
+  })
+
+  return { id: layoutId, width, height, tiles, regions }
+}
+
+export function getTileCenter(layout: BoardLayout, position: number): { x: number; y: number } {
+  const rect = layout.tiles[position] ?? layout.tiles[0]
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 }
+}
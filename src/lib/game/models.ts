@@ -0,0 +1,68 @@
+import type { GameVisibility, JoinRequestStatus } from './access'
+import type { EngineGame, EnginePlayer } from './types'
+
+// The app's view of the game tables. Rows are read through the repository,
+// which parses JSON and flag columns into these shapes; nothing outside it
+// sees a raw row. Games and players carry everything the engine reads, so
+// they can be handed to it as they are.
+
+export type MessageType = 'player' | 'spectator' | 'narrator' | 'action' | 'system'
+
+export interface Game extends EngineGame {
+  name: string
+  host_user_id: string
+  // Recounted from the player rows whenever a seat changes hands
+  current_players: number
+  adventure_story: string
+  epilogue: string | null
+  visibility: GameVisibility
+  invite_code: string
+  // Empty when the game has no password
+  password_hash: string
+  require_approval: boolean
+  // When the current turn began, in ms; drives the turn timer
+  turn_started_at: number | null
+  created_at: string
+}
+
+export interface Player extends EnginePlayer {
+  game_id: string
+  // Null for AI heroes
+  user_id: string | null
+  avatar: string
+  // Last heartbeat from the owner's client, in ms
+  last_seen_at: number | null
+}
+
+// A claimed seat. Its id is derived from the game and seat number, so a
+// seat can only be claimed once.
+export interface GameSeat {
+  id: string
+  game_id: string
+  seat: number
+  // Null for AI heroes
+  user_id: string | null
+  player_id: string
+}
+
+// A hero asking to join a game. Its id is derived from the game and user,
+// so each user has at most one request per game.
+export interface JoinRequest {
+  id: string
+  game_id: string
+  user_id: string
+  user_name: string
+  status: JoinRequestStatus
+  created_at: string
+}
+
+export interface ChatMessage {
+  id: string
+  game_id: string
+  user_id: string | null
+  player_id: string | null
+  message_type: MessageType
+  content: string
+  metadata: Record<string, any>
+  created_at: string
+}
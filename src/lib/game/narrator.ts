@@ -0,0 +1,188 @@
+import { createRng } from './dice'
+import { getItem, STATUS_EFFECTS } from './items'
+import type { EncounterOutcome } from './encounters'
+import type { EnginePlayer, EngineTile } from './types'
+
+// A template narrator that runs entirely in the browser. It stands in for
+// the AI Game Master whenever a generation call fails or takes too long, so
+// a game never stalls on the AI service. Template choice is seeded by the
+// game and roll, so every client would tell the same story.
+
+// How long to wait on the AI before narrating locally
+export const AI_TIMEOUT_MS = 15000
+
+export class NarratorTimeoutError extends Error {
+  constructor() {
+    super('The Game Master took too long to answer')
+    this.name = 'NarratorTimeoutError'
+  }
+}
+
+export function withTimeout<T>(promise: Promise<T>, ms = AI_TIMEOUT_MS): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new NarratorTimeoutError()), ms)
+    promise.then(
+      value => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      error => {
+        clearTimeout(timer)
+        reject(error)
+      }
+    )
+  })
+}
+
+// How an encounter went for the hero, read from its outcome
+type OutcomeBand = 'triumph' | 'mixed' | 'setback'
+
+const REGION_SCENERY: Record<string, string> = {
+  'Portal': 'beneath the shimmering arch of the Shadow Portal',
+  'Shadow Forest': 'among the whispering black pines',
+  'Cursed Swamp': 'knee-deep in the reeking bog',
+  'Haunted Graveyard': 'between the leaning, moss-eaten headstones',
+  'Crystal Caverns': 'under glittering ceilings of living crystal',
+  'Dragon Mountains': 'on a wind-scoured ledge high in the peaks',
+  'Wizard Tower': 'amid shelves of muttering spellbooks',
+  'Demon Fortress': 'in the sulphur haze of the fortress halls',
+  'Celestial Gardens': 'among blossoms that glow like falling stars',
+  'Void Nexus': 'where the world frays into starless dark',
+  'Vampire Castle': 'in a candlelit gallery of watchful portraits'
+}
+
+const DEFAULT_SCENERY = 'in the gloom of the Shadow Realm'
+
+// {hero}, {tile} and {scenery} are filled in from the encounter
+const ENCOUNTER_TEMPLATES: Record<string, Record<OutcomeBand, string[]>> = {
+  monster: {
+    triumph: [
+      '{hero} meets the horror of {tile} {scenery} and cuts it down in a single, shining stroke.',
+      'Steel flashes {scenery}; the beast of {tile} flees, leaving its hoard to {hero}.'
+    ],
+    mixed: [
+      '{hero} trades blows with the creature of {tile} {scenery} until both limp away.',
+      'A snarling shape lunges at {hero} {scenery}, and the skirmish at {tile} ends in a wary stalemate.'
+    ],
+    setback: [
+      'The fiend of {tile} catches {hero} off guard {scenery}, raking claws across armour and skin.',
+      '{hero} stumbles {scenery} as the monster of {tile} lands a brutal blow.'
+    ]
+  },
+  treasure: {
+    triumph: [
+      '{hero} pries open a hidden cache at {tile} {scenery}, and it glitters with riches.',
+      'Luck smiles on {hero} {scenery}: the vault of {tile} gives up its finest prize.'
+    ],
+    mixed: [
+      '{hero} sifts through the dust of {tile} {scenery}, but someone has picked it clean.',
+      'The urns of {tile} stand empty {scenery}; {hero} leaves with nothing but dusty hands.'
+    ],
+    setback: [
+      'The chest at {tile} bites back {scenery}, and {hero} pays for their greed.',
+      '{hero} reaches for the hoard of {tile} {scenery} and springs its guardian ward.'
+    ]
+  },
+  trap: {
+    triumph: [
+      '{hero} spots the tripwire at {tile} {scenery} and steps neatly over it.',
+      'A click {scenery}, a hiss of darts, and {hero} is already rolling clear of {tile}.'
+    ],
+    mixed: [
+      '{hero} edges past the mechanisms of {tile} {scenery}, heart pounding.',
+      'The trap at {tile} springs a heartbeat late, and {hero} escapes {scenery} with a fright.'
+    ],
+    setback: [
+      'The floor of {tile} gives way beneath {hero} {scenery}, and jagged spikes bite deep.',
+      '{hero} triggers a cruel snare {scenery}; {tile} claims its toll in blood.'
+    ]
+  },
+  event: {
+    triumph: [
+      'Fortune turns {scenery}: at {tile}, a grateful stranger rewards {hero} handsomely.',
+      'The omens at {tile} favour {hero}, and the realm itself seems to offer a gift {scenery}.'
+    ],
+    mixed: [
+      'Strange lights dance {scenery} around {tile}, then fade, leaving {hero} none the wiser.',
+      '{hero} witnesses an odd portent at {tile} {scenery}, and moves on thoughtfully.'
+    ],
+    setback: [
+      'Ill luck strikes at {tile} {scenery}; {hero} is waylaid and robbed.',
+      'A sly trickster {scenery} leaves {hero} lighter in the purse at {tile}.'
+    ]
+  },
+  default: {
+    triumph: [
+      '{hero} strides through {tile} {scenery} with the confidence of a legend.',
+      'All goes well for {hero} at {tile} {scenery}.'
+    ],
+    mixed: [
+      '{hero} pauses at {tile} {scenery}, taking in the quiet before the next danger.',
+      '{hero} rests a moment at {tile} {scenery}.'
+    ],
+    setback: [
+      '{hero} twists an ankle on the rough ground of {tile} {scenery}.',
+      'A chill wind {scenery} leaves {hero} shaken at {tile}.'
+    ]
+  }
+}
+
+// Gains with no losses read as a triumph and losses with no gains as a
+// setback; both, or neither, make a mixed encounter
+const outcomeBand = (outcome: EncounterOutcome): OutcomeBand => {
+  const effect = outcome.status_effect ? STATUS_EFFECTS[outcome.status_effect].boon.bonus : 0
+  const gained = outcome.health_change > 0 || outcome.gold_change > 0 || outcome.item_id !== null || effect > 0
+  const lost = outcome.health_change < 0 || outcome.gold_change < 0 || effect < 0
+  if (gained === lost) return 'mixed'
+  return gained ? 'triumph' : 'setback'
+}
+
+const fill = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (_, key) => values[key] ?? '')
+
+const pick = <T>(options: T[], key: string): T => options[Math.floor(createRng(key)() * options.length)]
+
+// Narration for an encounter whose outcome has already been decided
+export function narrateEncounterLocally(
+  player: EnginePlayer,
+  tile: EngineTile,
+  outcome: EncounterOutcome,
+  seedKey: string
+): string {
+  const templates = ENCOUNTER_TEMPLATES[tile.tile_type] ?? ENCOUNTER_TEMPLATES.default
+  const sentences = [
+    fill(pick(templates[outcomeBand(outcome)], seedKey), {
+      hero: player.character_name,
+      tile: tile.name,
+      scenery: REGION_SCENERY[tile.region] ?? DEFAULT_SCENERY
+    })
+  ]
+
+  if (outcome.item_id) {
+    sentences.push(`Among the spoils: a ${getItem(outcome.item_id)?.name ?? 'curious trinket'}.`)
+  }
+  if (outcome.status_effect) {
+    sentences.push(`${player.character_name} feels ${STATUS_EFFECTS[outcome.status_effect].name.toLowerCase()}.`)
+  }
+  return sentences.join(' ')
+}
+
+export function narrateAdventureLocally(gameName: string, playerNames: string[], questTile?: EngineTile): string {
+  const heroes = playerNames.length > 1
+    ? `${playerNames.slice(0, -1).join(', ')} and ${playerNames[playerNames.length - 1]}`
+    : playerNames[0] ?? 'A lone hero'
+  const goal = questTile
+    ? `Rumour speaks of ${questTile.name}, deep in the ${questTile.region}; whoever conquers it will break the realm's curse.`
+    : 'Somewhere beyond the last gate lies the source of the darkness, waiting to be ended.'
+
+  return [
+    `The Shadow Portal flares to life, and ${heroes} step through into the realm known as ${gameName}.`,
+    'Ten lands of forest, swamp, crystal and flame stretch before them, each hungrier than the last.',
+    goal
+  ].join('\n\n')
+}
+
+export function narrateEpilogueLocally(winnerName: string, turns: number): string {
+  return `After ${turns} turns of peril, ${winnerName} stands victorious over the Shadow Realm. ` +
+    'The other heroes return through the Portal with tales of their own, and the realm falls quiet — for now.'
+}
@@ -0,0 +1,339 @@
+import { createSeed, findTamperedRolls, rollDice, type DiceRoll } from './dice'
+import { formatModifier } from './abilities'
+import { getBoard } from './board'
+import { EngineError } from './engine'
+import { notifyGameChanged, notifyLobbyChanged } from './sync'
+import { VICTORY_CONDITIONS } from './victory'
+import { getItem, STATUS_EFFECTS } from './items'
+import {
+  appendMessage,
+  claimActionLock,
+  createRoll,
+  getDiceState,
+  getGame,
+  listRolls,
+  updateDiceState,
+  updateGame,
+  updatePlayer,
+  type NewMessage
+} from './repository'
+import type { Game, Player } from './models'
+import type { EngineEvent, EngineResult, EngineState } from './types'
+
+// Games and players already carry everything the engine reads; only the
+// tiles come from the game's board
+export function toEngineState(game: Game, players: Player[]): EngineState {
+  return { game, players, tiles: getBoard(game.settings.board_id).tiles }
+}
+
+interface EventMessage {
+  player_id: string | null
+  message_type: 'action' | 'system'
+  content: string
+  metadata: Record<string, unknown>
+}
+
+export function describeEvent(event: EngineEvent, state: EngineState): EventMessage | null {
+  const name = state.players.find(p => p.id === event.playerId)?.character_name ?? 'Someone'
+
+  switch (event.type) {
+    case 'moved':
+      return {
+        player_id: event.playerId,
+        message_type: 'action',
+        content: `${name} rolled ${event.dice.join(' + ')} = ${event.total} and moved to tile ${event.to}`,
+        metadata: {
+          action: 'movement',
+          dice: event.dice,
+          total: event.total,
+          newPosition: event.to,
+          rollIndex: event.rollIndex
+        }
+      }
+    case 'passed_start':
+      return {
+        player_id: event.playerId,
+        message_type: 'system',
+        content: `${name} passed the Shadow Portal and collected ${event.bonus} gold!`,
+        metadata: {}
+      }
+    case 'health_changed':
+    case 'gold_changed': {
+      const stat = event.type === 'health_changed' ? 'health' : 'gold'
+      const changeText = event.amount > 0 ? `gained ${event.amount}` : `lost ${Math.abs(event.amount)}`
+      return {
+        player_id: event.playerId,
+        message_type: 'system',
+        content: `${name} ${changeText} ${stat}!`,
+        metadata: {}
+      }
+    }
+    case 'property_bought': {
+      const tile = state.tiles.find(t => t.position === event.position)
+      return {
+        player_id: event.playerId,
+        message_type: 'system',
+        content: `${name} purchased ${tile?.name ?? `tile ${event.position}`} for ${event.price} gold!`,
+        metadata: { action: 'purchase', position: event.position, price: event.price }
+      }
+    }
+    case 'rent_paid': {
+      const tile = state.tiles.find(t => t.position === event.position)
+      const owner = state.players.find(p => p.id === event.ownerId)?.character_name ?? 'the owner'
+      return {
+        player_id: event.playerId,
+        message_type: 'system',
+        content: `${name} paid ${event.amount} gold rent to ${owner} for ${tile?.name ?? `tile ${event.position}`}.`,
+        metadata: { action: 'rent', position: event.position, amount: event.amount, owner_id: event.ownerId }
+      }
+    }
+    case 'player_downed':
+      return {
+        player_id: event.playerId,
+        message_type: 'system',
+        content: `${name} has fallen! (knockout ${event.knockouts})`,
+        metadata: { action: 'downed', knockouts: event.knockouts }
+      }
+    case 'player_respawned':
+      return {
+        player_id: event.playerId,
+        message_type: 'system',
+        content: `${name} awakens at the Shadow Portal with ${event.health} health, ${event.penalty} gold poorer.`,
+        metadata: { action: 'respawn', health: event.health, penalty: event.penalty }
+      }
+    case 'player_recovered':
+      return {
+        player_id: event.playerId,
+        message_type: 'system',
+        content: `${name} struggles back to their feet with ${event.health} health.`,
+        metadata: { action: 'recover', health: event.health }
+      }
+    case 'player_revived': {
+      const target = state.players.find(p => p.id === event.targetId)?.character_name ?? 'a fallen hero'
+      return {
+        player_id: event.playerId,
+        message_type: 'system',
+        content: `${name} calls on divine power and revives ${target} with ${event.health} health!`,
+        metadata: { action: 'revive', target_id: event.targetId, health: event.health }
+      }
+    }
+    case 'player_eliminated':
+      return {
+        player_id: event.playerId,
+        message_type: 'system',
+        content: `${name} has been eliminated from the Shadow Realm. Their properties return to the market.`,
+        metadata: { action: 'eliminated' }
+      }
+    case 'item_found': {
+      const item = getItem(event.itemId)
+      return {
+        player_id: event.playerId,
+        message_type: 'action',
+        content: `${name} found a ${item?.name ?? event.itemId}!`,
+        metadata: { action: 'item_found', item_id: event.itemId }
+      }
+    }
+    case 'item_used': {
+      const item = getItem(event.itemId)
+      const player = state.players.find(p => p.id === event.playerId)
+      const detail = item?.effect.type === 'teleport' ? ` and vanished to tile ${player?.position}` : ''
+      return {
+        player_id: event.playerId,
+        message_type: 'action',
+        content: `${name} used a ${item?.name ?? event.itemId}${detail}.`,
+        metadata: { action: 'item_used', item_id: event.itemId }
+      }
+    }
+    case 'status_effect_gained':
+      return {
+        player_id: event.playerId,
+        message_type: 'action',
+        content: `${name} is ${STATUS_EFFECTS[event.effect].name.toLowerCase()} until their next check.`,
+        metadata: { action: 'status_effect', effect: event.effect }
+      }
+    case 'game_ended':
+      return {
+        player_id: event.playerId,
+        message_type: 'system',
+        content: `${name} wins the adventure! (${VICTORY_CONDITIONS[event.reason].label})`,
+        metadata: { action: 'game_ended', reason: event.reason }
+      }
+    case 'turn_ended':
+      return {
+        player_id: null,
+        message_type: 'system',
+        content: `${name} ended their turn. Player ${event.nextPlayer}'s turn begins!`,
+        metadata: {}
+      }
+    case 'tile_resolved': {
+      const tile = state.tiles.find(t => t.position === event.position)
+      return {
+        player_id: event.playerId,
+        message_type: 'action',
+        content: `${name} rolled ${event.roll} ${formatModifier(event.modifier)} (${event.breakdown}) = ${event.total} at ${tile?.name ?? `tile ${event.position}`}`,
+        metadata: {
+          action: 'check',
+          roll: event.roll,
+          modifier: event.modifier,
+          total: event.total,
+          breakdown: event.breakdown,
+          position: event.position,
+          rollIndex: event.rollIndex
+        }
+      }
+    }
+  }
+}
+
+export class TurnLockError extends EngineError {
+  constructor(message = 'The game has moved on since you last looked. Please try again.') {
+    super(message)
+    this.name = 'TurnLockError'
+  }
+}
+
+// Rejects an action when the stored game no longer matches what the client
+// based it on: someone else acted, or the turn already passed on.
+export async function checkTurnLock(game: { id: string; version: number; current_player: number }) {
+  const stored = await getGame(game.id)
+  if (!stored) {
+    throw new EngineError('Game not found')
+  }
+  if (stored.version !== game.version || stored.current_player !== game.current_player) {
+    throw new TurnLockError()
+  }
+}
+
+// Writes the difference between two engine states back to the database
+// and posts a chat message for every event that has one, after any
+// narration that goes with the action. Each committed action claims the
+// game's current version through a record keyed by it, so only one of two
+// racing clients can ever commit from the same state.
+// Returns the committed state, carrying the game's new version.
+export async function commitResult(
+  before: EngineState,
+  result: EngineResult,
+  actionType: string,
+  narration: NewMessage[] = []
+): Promise<EngineState> {
+  const { state, events } = result
+
+  await checkTurnLock(before.game)
+  if (!(await claimActionLock(before.game.id, before.game.version, actionType, before.game.current_player))) {
+    throw new TurnLockError()
+  }
+
+  for (const player of state.players) {
+    const previous = before.players.find(p => p.id === player.id)
+    const changes: Partial<Player> = {}
+
+    if (previous?.position !== player.position) changes.position = player.position
+    if (previous?.health !== player.health) changes.health = player.health
+    if (previous?.gold !== player.gold) changes.gold = player.gold
+    if (previous?.status !== player.status) changes.status = player.status
+    if (previous?.knockouts !== player.knockouts) changes.knockouts = player.knockouts
+    if (JSON.stringify(previous?.properties) !== JSON.stringify(player.properties)) {
+      changes.properties = player.properties
+    }
+    if (JSON.stringify(previous?.inventory) !== JSON.stringify(player.inventory)) {
+      changes.inventory = player.inventory
+    }
+    if (JSON.stringify(previous?.boons) !== JSON.stringify(player.boons)) {
+      changes.boons = player.boons
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await updatePlayer(player.id, changes)
+    }
+  }
+
+  const committed: EngineState = { ...state, game: { ...state.game, version: before.game.version + 1 } }
+  const turnChanged = committed.game.current_player !== before.game.current_player ||
+    committed.game.current_turn !== before.game.current_turn
+  await updateGame(state.game.id, {
+    current_player: committed.game.current_player,
+    current_turn: committed.game.current_turn,
+    turn_phase: committed.game.turn_phase,
+    status: committed.game.status,
+    winner_id: committed.game.winner_id,
+    version: committed.game.version,
+    // Starts the turn timer for whoever is up next
+    ...(turnChanged ? { turn_started_at: Date.now() } : {})
+  })
+
+  for (const message of narration) {
+    await appendMessage(message)
+  }
+  for (const event of events) {
+    const message = describeEvent(event, state)
+    if (!message) continue
+
+    await appendMessage({ ...message, game_id: state.game.id })
+  }
+
+  await notifyGameChanged(state.game.id, 'game', 'players', 'chat')
+  if (committed.game.status !== before.game.status) {
+    // Finished games drop out of the lobby list
+    await notifyLobbyChanged()
+  }
+  return committed
+}
+
+interface RollRequest {
+  purpose: string
+  count: number
+  sides: number
+  stream: string
+}
+
+const ROLL_ATTEMPTS = 3
+
+// Rolls dice from the game's seed and records the roll under the next free
+// index. The record id is derived from the index, so two clients racing for
+// the same index cannot both succeed; the loser moves on to the following index.
+export async function rollForGame(gameId: string, request: RollRequest): Promise<DiceRoll> {
+  let lastError: unknown
+  let nextIndex = 0
+
+  for (let attempt = 0; attempt < ROLL_ATTEMPTS; attempt++) {
+    const dice = await getDiceState(gameId)
+    if (!dice) {
+      throw new Error('Game not found')
+    }
+
+    const seed = dice.seed || createSeed()
+    const index = Math.max(dice.roll_index, nextIndex)
+    const roll: DiceRoll = { index, values: rollDice(seed, index, request.count, request.sides, request.stream), ...request }
+
+    try {
+      await createRoll(gameId, roll)
+    } catch (error) {
+      lastError = error
+      nextIndex = index + 1
+      continue
+    }
+
+    await updateDiceState(gameId, { seed, roll_index: index + 1 })
+    return roll
+  }
+
+  throw lastError
+}
+
+export interface RollAudit {
+  seed: string
+  rolls: DiceRoll[]
+  // Recorded rolls the seed does not reproduce
+  tampered: DiceRoll[]
+}
+
+// Checks the whole roll log against the seed. Only finished games can be
+// audited, since the seed would otherwise give away the rolls to come.
+export async function auditRolls(game: Game): Promise<RollAudit | null> {
+  if (game.status !== 'finished') return null
+
+  const [dice, rolls] = await Promise.all([getDiceState(game.id), listRolls(game.id)])
+  const seed = dice?.seed
+  if (!seed) return null
+  return { seed, rolls, tampered: findTamperedRolls(seed, rolls) }
+}
@@ -0,0 +1,105 @@
+import { appendMessage, getGame, listPlayers, updatePlayer } from './repository'
+import { notifyGameChanged } from './sync'
+import type { Game, Player } from './models'
+
+// Who is still at the table. Each client stamps its player row while the
+// game is open; a seat whose stamp goes stale, or whose turn runs past the
+// turn timer, is handed to the AI until its owner takes it back.
+
+export const HEARTBEAT_INTERVAL_MS = 15000
+// Three missed heartbeats and a player counts as gone
+export const OFFLINE_AFTER_MS = HEARTBEAT_INTERVAL_MS * 3
+
+export const isAiControlled = (player: Pick<Player, 'is_ai' | 'ai_controlled'>) =>
+  player.is_ai || player.ai_controlled
+
+export function isOnline(player: Player, now = Date.now()): boolean {
+  if (player.is_ai) return true
+  return now - (player.last_seen_at ?? 0) < OFFLINE_AFTER_MS
+}
+
+// Seconds left on the current turn, or null when there is no timer
+export function getTurnTimeLeft(game: Game, now = Date.now()): number | null {
+  const turnTimer = game.settings.turn_timer
+  if (turnTimer <= 0 || !game.turn_started_at || game.status !== 'active') return null
+  return Math.max(0, Math.ceil(turnTimer - (now - game.turn_started_at) / 1000))
+}
+
+// Why the seat whose turn it is should go to the AI, if it should
+export function getTakeoverReason(game: Game, players: Player[], now = Date.now()): 'offline' | 'timed_out' | null {
+  if (game.status !== 'active') return null
+
+  const current = players.find(p => p.player_number === game.current_player)
+  if (!current || isAiControlled(current)) return null
+  if (!isOnline(current, now)) return 'offline'
+  return getTurnTimeLeft(game, now) === 0 ? 'timed_out' : null
+}
+
+// The one client that acts for the table: the lowest online human still
+// playing for themselves or, once the AI holds every seat, the lowest
+// online owner of any seat. Every client works it out the same way.
+export function getTableDriver(players: Player[], now = Date.now()): Player | undefined {
+  const present = players
+    .filter(p => p.user_id !== null && isOnline(p, now))
+    .sort((a, b) => a.player_number - b.player_number)
+  return present.find(p => !isAiControlled(p)) ?? present[0]
+}
+
+export async function sendHeartbeat(playerId: string) {
+  await updatePlayer(playerId, { last_seen_at: Date.now() })
+}
+
+const SEAT_MESSAGES = {
+  offline: (name: string) => `${name} has left the table. The AI takes their seat until they return.`,
+  timed_out: (name: string) => `${name} ran out of time. The AI takes their seat until they return.`,
+  reclaimed: (name: string) => `${name} is back and takes their seat from the AI.`
+}
+
+type SeatHolder = Pick<Player, 'id' | 'character_name'>
+
+async function setAiControl(gameId: string, player: SeatHolder, reason: keyof typeof SEAT_MESSAGES) {
+  const aiControlled = reason !== 'reclaimed'
+  await updatePlayer(player.id, {
+    ai_controlled: aiControlled,
+    // A reclaimed seat is plainly back online
+    ...(aiControlled ? {} : { last_seen_at: Date.now() })
+  })
+  await appendMessage({
+    game_id: gameId,
+    player_id: player.id,
+    message_type: 'system',
+    content: SEAT_MESSAGES[reason](player.character_name),
+    metadata: { type: 'seat_control', reason }
+  })
+  await notifyGameChanged(gameId, 'players', 'chat')
+}
+
+export function reclaimSeat(gameId: string, player: SeatHolder) {
+  return setAiControl(gameId, player, 'reclaimed')
+}
+
+// Hands abandoned seats to the AI. Every client runs this on its heartbeat
+// but only the table's driver acts, working from fresh rows since
+// heartbeats do not announce themselves.
+export async function checkAbandonedSeats(gameId: string, userId: string) {
+  const game = await getGame(gameId)
+  if (!game || game.status !== 'active') return
+
+  const players = await listPlayers(gameId)
+  const now = Date.now()
+  if (getTableDriver(players, now)?.user_id !== userId) return
+  const humans = players.filter(p => !isAiControlled(p))
+
+  // Anyone who has closed the tab, whether or not it is their turn
+  for (const player of humans) {
+    if (!isOnline(player, now)) {
+      await setAiControl(gameId, player, 'offline')
+    }
+  }
+
+  // Still here but idle past the turn timer
+  const current = players.find(p => p.player_number === game.current_player)
+  if (current && getTakeoverReason(game, players, now) === 'timed_out') {
+    await setAiControl(gameId, current, 'timed_out')
+  }
+}
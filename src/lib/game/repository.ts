@@ -0,0 +1,443 @@
+import { blink } from '../blink'
+import { DEFAULT_DEATH_RULES } from './engine'
+import type { DiceRoll } from './dice'
+import { getItem } from './items'
+import { normalizeSettings } from './settings'
+import { DEFAULT_VICTORY_RULES, VICTORY_CONDITIONS } from './victory'
+import type { JoinRequestStatus } from './access'
+import type { ChatMessage, Game, GameSeat, JoinRequest, MessageType, Player } from './models'
+import type { Boon, DeathRules, GameSettings, GameStatus, PlayerStatus, TurnPhase, VictoryRules } from './types'
+
+// Typed access to the game tables: games, players, game_seats,
+// game_actions, join_requests, chat_messages and dice_rolls. Reads parse
+// and check every JSON and flag column, writes serialize them again, and
+// queries filter, order and page in the database.
+
+const GAME_STATUSES: GameStatus[] = ['waiting', 'active', 'finished']
+const PLAYER_STATUSES: PlayerStatus[] = ['active', 'downed', 'eliminated']
+const TURN_PHASES: TurnPhase[] = ['awaiting_move', 'awaiting_action', 'awaiting_purchase', 'done']
+const MESSAGE_TYPES: MessageType[] = ['player', 'spectator', 'narrator', 'action', 'system']
+const JOIN_REQUEST_STATUSES: JoinRequestStatus[] = ['pending', 'approved', 'declined']
+
+const createId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+const parseJson = (json: string | null | undefined, fallback: string) => {
+  try {
+    return JSON.parse(json || fallback)
+  } catch {
+    return JSON.parse(fallback)
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const toNullableNumber = (value: unknown) =>
+  value === null || value === undefined || value === '' ? null : Number(value)
+
+// Player rows store properties as a JSON string; older rows may hold
+// objects with a `position` field instead of bare tile numbers.
+export function parseProperties(propertiesJson: string | null | undefined): number[] {
+  const parsed = parseJson(propertiesJson, '[]')
+  if (!Array.isArray(parsed)) return []
+  return parsed
+    .map((prop: any) => Number(isRecord(prop) ? prop.position : prop))
+    .filter(position => Number.isFinite(position))
+}
+
+// Inventories hold catalog item ids; anything else is dropped
+export function parseInventory(inventoryJson: string | null | undefined): string[] {
+  const parsed = parseJson(inventoryJson, '[]')
+  if (!Array.isArray(parsed)) return []
+  return parsed
+    .map(item => (typeof item === 'string' ? item : item?.id))
+    .filter((id): id is string => typeof id === 'string' && getItem(id) !== undefined)
+}
+
+function parseBoons(boonsJson: string | null | undefined): Boon[] {
+  const parsed = parseJson(boonsJson, '[]')
+  return Array.isArray(parsed) ? parsed.filter(boon => isRecord(boon) && typeof boon.item_id === 'string') : []
+}
+
+export function parseDeathRules(rulesJson: string | null | undefined): DeathRules {
+  const parsed = parseJson(rulesJson, '{}')
+  return { ...DEFAULT_DEATH_RULES, ...(isRecord(parsed) ? parsed : {}) }
+}
+
+export function parseVictoryRules(rulesJson: string | null | undefined): VictoryRules {
+  const parsed = parseJson(rulesJson, '{}')
+  const rules = { ...DEFAULT_VICTORY_RULES, ...(isRecord(parsed) ? parsed : {}) }
+  return {
+    conditions: (Array.isArray(rules.conditions) ? rules.conditions : []).filter(
+      (c: string) => c in VICTORY_CONDITIONS
+    ),
+    turn_limit: Number(rules.turn_limit) || DEFAULT_VICTORY_RULES.turn_limit
+  }
+}
+
+// A game's settings live in the `settings` column, except for the parts
+// that had columns of their own before settings existed
+function parseGameSettings(row: any): GameSettings {
+  const stored = parseJson(row.settings, '{}')
+  return {
+    ...normalizeSettings({ ...(isRecord(stored) ? stored : {}), max_players: row.max_players, board_id: row.board_id }),
+    death_rules: parseDeathRules(row.death_rules),
+    victory_rules: parseVictoryRules(row.victory_rules)
+  }
+}
+
+// The inverse of parseGameSettings, as columns for a games row
+export function toSettingsColumns(settings: GameSettings) {
+  const { max_players, board_id, death_rules, victory_rules, ...rest } = settings
+  return {
+    max_players,
+    board_id,
+    death_rules: JSON.stringify(death_rules),
+    victory_rules: JSON.stringify(victory_rules),
+    settings: JSON.stringify(rest)
+  }
+}
+
+export function toGame(row: any): Game {
+  return {
+    id: row.id,
+    name: row.name || '',
+    status: GAME_STATUSES.includes(row.status) ? row.status : 'waiting',
+    host_user_id: row.host_user_id,
+    current_turn: Number(row.current_turn) || 1,
+    current_player: Number(row.current_player) || 1,
+    current_players: Number(row.current_players) || 0,
+    version: Number(row.version) || 0,
+    ai_difficulty: row.ai_difficulty || 'normal',
+    turn_phase: TURN_PHASES.includes(row.turn_phase) ? row.turn_phase : 'awaiting_move',
+    settings: parseGameSettings(row),
+    quest_position: toNullableNumber(row.quest_position),
+    winner_id: row.winner_id || null,
+    adventure_story: row.adventure_story || '',
+    epilogue: row.epilogue || null,
+    visibility: row.visibility === 'private' ? 'private' : 'public',
+    invite_code: row.invite_code || '',
+    password_hash: row.password_hash || '',
+    require_approval: Number(row.require_approval) > 0,
+    turn_started_at: toNullableNumber(row.turn_started_at),
+    created_at: row.created_at
+  }
+}
+
+export function toPlayer(row: any): Player {
+  return {
+    id: row.id,
+    game_id: row.game_id,
+    user_id: row.user_id || null,
+    player_number: Number(row.player_number),
+    character_name: row.character_name,
+    character_class: row.character_class || '',
+    avatar: row.avatar || '',
+    position: Number(row.position),
+    health: Number(row.health),
+    gold: Number(row.gold),
+    properties: parseProperties(row.properties),
+    is_ai: Number(row.is_ai) > 0,
+    ai_controlled: Number(row.ai_controlled) > 0,
+    ai_personality: row.ai_personality || null,
+    status: PLAYER_STATUSES.includes(row.status) ? row.status : 'active',
+    knockouts: Number(row.knockouts) || 0,
+    inventory: parseInventory(row.inventory),
+    boons: parseBoons(row.boons),
+    last_seen_at: toNullableNumber(row.last_seen_at),
+    strength: Number(row.strength) || 10,
+    dexterity: Number(row.dexterity) || 10,
+    constitution: Number(row.constitution) || 10,
+    intelligence: Number(row.intelligence) || 10,
+    wisdom: Number(row.wisdom) || 10,
+    charisma: Number(row.charisma) || 10
+  }
+}
+
+export function toSeat(row: any): GameSeat {
+  return {
+    id: row.id,
+    game_id: row.game_id,
+    seat: Number(row.seat),
+    user_id: row.user_id || null,
+    player_id: row.player_id
+  }
+}
+
+export function toJoinRequest(row: any): JoinRequest {
+  return {
+    id: row.id,
+    game_id: row.game_id,
+    user_id: row.user_id,
+    user_name: row.user_name || 'A hero',
+    status: JOIN_REQUEST_STATUSES.includes(row.status) ? row.status : 'pending',
+    created_at: row.created_at
+  }
+}
+
+export function toDiceRoll(row: any): DiceRoll {
+  const values = parseJson(row.dice, '[]')
+  return {
+    index: Number(row.roll_index),
+    stream: row.stream || '',
+    purpose: row.purpose || '',
+    count: Number(row.count),
+    sides: Number(row.sides),
+    values: Array.isArray(values) ? values.map(Number) : []
+  }
+}
+
+export function toChatMessage(row: any): ChatMessage {
+  const metadata = parseJson(row.metadata, '{}')
+  return {
+    id: row.id,
+    game_id: row.game_id,
+    user_id: row.user_id || null,
+    player_id: row.player_id || null,
+    message_type: MESSAGE_TYPES.includes(row.message_type) ? row.message_type : 'system',
+    content: row.content || '',
+    metadata: isRecord(metadata) ? metadata : {},
+    created_at: row.created_at
+  }
+}
+
+function toGameColumns(changes: Partial<Game>) {
+  const { settings, require_approval, ...rest } = changes
+  return {
+    ...rest,
+    ...(settings ? toSettingsColumns(settings) : {}),
+    ...(require_approval === undefined ? {} : { require_approval: require_approval ? 1 : 0 })
+  }
+}
+
+function toPlayerColumns(changes: Partial<Player>) {
+  const { properties, inventory, boons, is_ai, ai_controlled, ...rest } = changes
+  return {
+    ...rest,
+    ...(properties ? { properties: JSON.stringify(properties) } : {}),
+    ...(inventory ? { inventory: JSON.stringify(inventory) } : {}),
+    ...(boons ? { boons: JSON.stringify(boons) } : {}),
+    ...(is_ai === undefined ? {} : { is_ai: is_ai ? 1 : 0 }),
+    ...(ai_controlled === undefined ? {} : { ai_controlled: ai_controlled ? 1 : 0 })
+  }
+}
+
+// Games
+
+export async function getGame(gameId: string): Promise<Game | null> {
+  const row = await blink.db.games.get(gameId)
+  return row ? toGame(row) : null
+}
+
+// Columns that only matter when the game is created, outside the model
+export interface NewGameColumns {
+  seed: string
+  roll_index: number
+  adventure_prompt: string
+}
+
+export async function createGame(game: Omit<Game, 'created_at'>, columns: NewGameColumns) {
+  await blink.db.games.create({ ...toGameColumns(game), ...columns })
+}
+
+export async function updateGame(gameId: string, changes: Partial<Game>) {
+  await blink.db.games.update(gameId, toGameColumns(changes))
+}
+
+export async function findGameByInviteCode(code: string): Promise<Game | null> {
+  const rows = await blink.db.games.list({
+    where: { invite_code: code.trim().toUpperCase() },
+    limit: 1
+  })
+  return rows[0] ? toGame(rows[0]) : null
+}
+
+// Where a game's dice stand. The seed stays out of the Game model: it
+// predicts every roll still to come.
+export interface DiceState {
+  // Null until the first roll
+  seed: string | null
+  // The index the next roll will claim
+  roll_index: number
+}
+
+export async function getDiceState(gameId: string): Promise<DiceState | null> {
+  const row = await blink.db.games.get(gameId)
+  return row ? { seed: row.seed || null, roll_index: Number(row.roll_index) || 0 } : null
+}
+
+export async function updateDiceState(gameId: string, state: { seed: string; roll_index: number }) {
+  await blink.db.games.update(gameId, state)
+}
+
+// Turn actions. Each commit claims the game's version through a record
+// keyed by it; returns false if another commit already claimed it.
+export async function claimActionLock(gameId: string, version: number, actionType: string, playerNumber: number) {
+  try {
+    await blink.db.game_actions.create({
+      id: `action_${gameId}_${version}`,
+      game_id: gameId,
+      version,
+      action_type: actionType,
+      player_number: playerNumber
+    })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const LOBBY_PAGE_SIZE = 10
+
+export interface GamePage {
+  games: Game[]
+  hasMore: boolean
+}
+
+// Open games for the lobby, newest first, a page at a time. Private games
+// are only listed for their host; games from before visibility existed
+// have none and count as public.
+export async function listLobbyGames(userId: string, page = 0): Promise<GamePage> {
+  const rows = await blink.db.games.list({
+    where: {
+      AND: [
+        { status: { in: ['waiting', 'active'] } },
+        { OR: [{ visibility: 'public' }, { visibility: { is: null } }, { host_user_id: userId }] }
+      ]
+    },
+    orderBy: { created_at: 'desc' },
+    // One row past the page says whether there is another
+    limit: LOBBY_PAGE_SIZE + 1,
+    offset: page * LOBBY_PAGE_SIZE
+  })
+  return {
+    games: rows.slice(0, LOBBY_PAGE_SIZE).map(toGame),
+    hasMore: rows.length > LOBBY_PAGE_SIZE
+  }
+}
+
+// Players
+
+export async function listPlayers(gameId: string): Promise<Player[]> {
+  const rows = await blink.db.players.list({
+    where: { game_id: gameId },
+    orderBy: { player_number: 'asc' }
+  })
+  return rows.map(toPlayer)
+}
+
+export async function countPlayers(gameId: string): Promise<number> {
+  return blink.db.players.count({ where: { game_id: gameId } })
+}
+
+export async function getPlayerForUser(gameId: string, userId: string): Promise<Player | null> {
+  const rows = await blink.db.players.list({
+    where: { game_id: gameId, user_id: userId },
+    limit: 1
+  })
+  return rows[0] ? toPlayer(rows[0]) : null
+}
+
+export async function createPlayer(player: Player) {
+  await blink.db.players.create(toPlayerColumns(player))
+}
+
+export async function updatePlayer(playerId: string, changes: Partial<Player>) {
+  await blink.db.players.update(playerId, toPlayerColumns(changes))
+}
+
+export async function deletePlayer(playerId: string) {
+  await blink.db.players.delete(playerId)
+}
+
+// Seats
+
+export async function listSeats(gameId: string): Promise<GameSeat[]> {
+  const rows = await blink.db.game_seats.list({ where: { game_id: gameId } })
+  return rows.map(toSeat)
+}
+
+// Fails if the seat's record already exists
+export async function createSeat(seat: GameSeat) {
+  await blink.db.game_seats.create(seat)
+}
+
+export async function deleteSeat(seatId: string) {
+  await blink.db.game_seats.delete(seatId)
+}
+
+// Join requests
+
+export async function getJoinRequest(requestId: string): Promise<JoinRequest | null> {
+  const row = await blink.db.join_requests.get(requestId)
+  return row ? toJoinRequest(row) : null
+}
+
+// Oldest first
+export async function listJoinRequests(gameId: string, status: JoinRequestStatus): Promise<JoinRequest[]> {
+  const rows = await blink.db.join_requests.list({
+    where: { game_id: gameId, status },
+    orderBy: { created_at: 'asc' }
+  })
+  return rows.map(toJoinRequest)
+}
+
+export async function createJoinRequest(request: Omit<JoinRequest, 'created_at'>) {
+  await blink.db.join_requests.create(request)
+}
+
+export async function updateJoinRequest(requestId: string, changes: Partial<JoinRequest>) {
+  await blink.db.join_requests.update(requestId, changes)
+}
+
+// Chat
+
+// Newest first. Players' feeds leave spectator chat out in the query, so
+// it does not eat into the limit.
+export async function listMessages(gameId: string, limit: number, withSpectators = true): Promise<ChatMessage[]> {
+  const rows = await blink.db.chat_messages.list({
+    where: withSpectators
+      ? { game_id: gameId }
+      : { game_id: gameId, message_type: { in: MESSAGE_TYPES.filter(type => type !== 'spectator') } },
+    orderBy: { created_at: 'desc' },
+    limit
+  })
+  return rows.map(toChatMessage)
+}
+
+export type NewMessage = Omit<ChatMessage, 'id' | 'created_at' | 'user_id'> & { user_id?: string | null }
+
+// Adds a message to the game's log: chat, narration or an engine event
+export async function appendMessage(message: NewMessage) {
+  await blink.db.chat_messages.create({
+    ...message,
+    id: createId('msg'),
+    user_id: message.user_id ?? null,
+    metadata: JSON.stringify(message.metadata)
+  })
+}
+
+// Dice
+
+// Fails if a roll already holds this index
+export async function createRoll(gameId: string, roll: DiceRoll) {
+  await blink.db.dice_rolls.create({
+    id: `roll_${gameId}_${roll.index}`,
+    game_id: gameId,
+    roll_index: roll.index,
+    stream: roll.stream,
+    purpose: roll.purpose,
+    count: roll.count,
+    sides: roll.sides,
+    dice: JSON.stringify(roll.values)
+  })
+}
+
+// Every recorded roll, in the order it was made
+export async function listRolls(gameId: string): Promise<DiceRoll[]> {
+  const rows = await blink.db.dice_rolls.list({
+    where: { game_id: gameId },
+    orderBy: { roll_index: 'asc' }
+  })
+  return rows.map(toDiceRoll)
+}
@@ -0,0 +1,131 @@
+import { assertMayJoin } from './access'
+import {
+  countPlayers,
+  createPlayer,
+  createSeat,
+  deletePlayer,
+  deleteSeat,
+  getGame,
+  listPlayers,
+  listSeats,
+  updateGame
+} from './repository'
+import { notifyGameChanged, notifyLobbyChanged } from './sync'
+import type { Game, Player } from './models'
+
+// Seats at the table. A seat is claimed by creating a record keyed by the
+// game and seat number, so two heroes racing for the same seat cannot both
+// get it; the loser moves on to the next free one. The game's player count
+// is always recounted from the player rows rather than kept by hand.
+
+export class SeatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SeatError'
+  }
+}
+
+const seatId = (gameId: string, seat: number) => `seat_${gameId}_${seat}`
+
+export const createPlayerId = () => `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+// Returns false if someone else already holds the seat
+export async function claimSeat(gameId: string, seat: number, userId: string | null, playerId: string) {
+  try {
+    await createSeat({
+      id: seatId(gameId, seat),
+      game_id: gameId,
+      seat,
+      user_id: userId,
+      player_id: playerId
+    })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function releaseSeat(gameId: string, seat: number) {
+  try {
+    await deleteSeat(seatId(gameId, seat))
+  } catch (error) {
+    // Seats taken before claims existed have no record to remove
+    console.error('Failed to release seat:', error)
+  }
+}
+
+// Claims the lowest seat nobody holds, skipping seats whose claim was lost
+async function claimFreeSeat(gameId: string, maxPlayers: number, userId: string, playerId: string): Promise<number> {
+  const [players, seats] = await Promise.all([
+    listPlayers(gameId),
+    listSeats(gameId)
+  ])
+  if (players.some(p => p.user_id === userId) || seats.some(s => s.user_id === userId)) {
+    throw new SeatError('You already have a hero in this game')
+  }
+
+  const taken = new Set([
+    ...players.map(p => p.player_number),
+    ...seats.map(s => s.seat)
+  ])
+  for (let seat = 1; seat <= maxPlayers; seat++) {
+    if (taken.has(seat)) continue
+    if (await claimSeat(gameId, seat, userId, playerId)) return seat
+  }
+  throw new SeatError('Game is full')
+}
+
+export async function syncPlayerCount(gameId: string): Promise<number> {
+  const count = await countPlayers(gameId)
+  await updateGame(gameId, { current_players: count })
+  return count
+}
+
+// Everything about a new hero except where they sit
+export type NewHero = Omit<Player, 'id' | 'game_id' | 'user_id' | 'player_number'>
+
+// Seats a new hero and creates their player row
+export async function joinGame(gameId: string, userId: string, hero: NewHero) {
+  const game = await getGame(gameId)
+  if (!game) {
+    throw new SeatError('Game not found')
+  }
+  await assertMayJoin(game, userId)
+
+  const playerId = createPlayerId()
+  const seat = await claimFreeSeat(gameId, game.settings.max_players, userId, playerId)
+  try {
+    await createPlayer({
+      ...hero,
+      id: playerId,
+      game_id: gameId,
+      user_id: userId,
+      player_number: seat
+    })
+  } catch (error) {
+    await releaseSeat(gameId, seat)
+    throw error
+  }
+
+  await syncPlayerCount(gameId)
+  await notifyGameChanged(gameId, 'players')
+  await notifyLobbyChanged()
+  return seat
+}
+
+// Heroes can only walk away before the adventure starts; after that an
+// empty seat is played by the AI instead
+export async function leaveGame(game: Game, player: Player) {
+  if (game.status !== 'waiting') {
+    throw new SeatError('The adventure has already begun')
+  }
+  if (game.host_user_id === player.user_id) {
+    throw new SeatError('The host cannot leave their own game')
+  }
+
+  await deletePlayer(player.id)
+  await releaseSeat(game.id, player.player_number)
+  await syncPlayerCount(game.id)
+  await notifyGameChanged(game.id, 'players')
+  await notifyLobbyChanged()
+}
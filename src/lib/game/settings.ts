@@ -0,0 +1,72 @@
+import { DEFAULT_BOARD_ID, listBoards } from './board'
+import { DEFAULT_DEATH_RULES } from './engine'
+import { DEFAULT_VICTORY_RULES } from './victory'
+import type { GameSettings, HouseRules } from './types'
+
+export const MIN_PLAYERS = 2
+export const MAX_PLAYERS = 6
+
+// Choices offered in the create-game dialog
+export const STARTING_GOLD_OPTIONS = [1000, 1500, 2500]
+export const STARTING_HEALTH_OPTIONS = [75, 100, 150]
+export const PASS_START_BONUS_OPTIONS = [100, 200, 400]
+export const TURN_LIMIT_OPTIONS = [15, 30, 50]
+// Seconds; 0 turns the timer off
+export const TURN_TIMER_OPTIONS = [0, 60, 120, 300]
+
+export const HOUSE_RULES: Record<keyof HouseRules, { label: string; description: string }> = {
+  double_on_exact_landing: {
+    label: 'Double Portal Bonus',
+    description: 'Landing exactly on the Portal pays the bonus twice'
+  },
+  no_rent_while_downed: {
+    label: 'No Rent While Downed',
+    description: 'Fallen heroes cannot collect rent on their properties'
+  }
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  max_players: 4,
+  starting_gold: 1500,
+  starting_health: 100,
+  pass_start_bonus: 200,
+  turn_timer: 0,
+  ai_fill: true,
+  board_id: DEFAULT_BOARD_ID,
+  death_rules: DEFAULT_DEATH_RULES,
+  victory_rules: DEFAULT_VICTORY_RULES,
+  house_rules: {
+    double_on_exact_landing: false,
+    no_rent_while_downed: false
+  }
+}
+
+const positiveNumber = (value: unknown, fallback: number) => {
+  const number = Number(value)
+  return Number.isFinite(number) && number > 0 ? Math.round(number) : fallback
+}
+
+// Fills in and bounds the scalar settings; rule sets are parsed separately
+export function normalizeSettings(raw: Partial<Record<keyof GameSettings, unknown>>): GameSettings {
+  const houseRules = typeof raw.house_rules === 'object' && raw.house_rules !== null
+    ? (raw.house_rules as Record<string, unknown>)
+    : {}
+  const boardId = typeof raw.board_id === 'string' && listBoards().some(b => b.id === raw.board_id)
+    ? raw.board_id
+    : DEFAULT_GAME_SETTINGS.board_id
+
+  return {
+    ...DEFAULT_GAME_SETTINGS,
+    max_players: Math.min(MAX_PLAYERS, Math.max(MIN_PLAYERS, positiveNumber(raw.max_players, DEFAULT_GAME_SETTINGS.max_players))),
+    starting_gold: positiveNumber(raw.starting_gold, DEFAULT_GAME_SETTINGS.starting_gold),
+    starting_health: positiveNumber(raw.starting_health, DEFAULT_GAME_SETTINGS.starting_health),
+    pass_start_bonus: positiveNumber(raw.pass_start_bonus, DEFAULT_GAME_SETTINGS.pass_start_bonus),
+    turn_timer: TURN_TIMER_OPTIONS.includes(Number(raw.turn_timer)) ? Number(raw.turn_timer) : DEFAULT_GAME_SETTINGS.turn_timer,
+    ai_fill: typeof raw.ai_fill === 'boolean' ? raw.ai_fill : DEFAULT_GAME_SETTINGS.ai_fill,
+    board_id: boardId,
+    house_rules: {
+      double_on_exact_landing: houseRules.double_on_exact_landing === true,
+      no_rent_while_downed: houseRules.no_rent_while_downed === true
+    }
+  }
+}
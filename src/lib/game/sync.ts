@@ -0,0 +1,78 @@
+import { blink } from '../blink'
+
+// Change notifications for games and the lobby. Writers announce which part
+// of a game changed; readers reload just that part. Notifications go to
+// listeners in this tab immediately and to every other client over Blink
+// realtime, so the board updates without polling.
+
+export type ChangeKind = 'game' | 'players' | 'chat' | 'access'
+
+type ChangeListener = (kinds: ChangeKind[]) => void
+
+const LOBBY_CHANNEL = 'lobby'
+
+// Identifies this tab so it can ignore its own realtime echoes
+const SOURCE_ID = `tab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+const localListeners = new Map<string, Set<ChangeListener>>()
+
+const gameChannel = (gameId: string) => `game:${gameId}`
+
+const emitLocal = (channel: string, kinds: ChangeKind[]) => {
+  localListeners.get(channel)?.forEach(listener => listener(kinds))
+}
+
+async function publishChange(channel: string, kinds: ChangeKind[]) {
+  emitLocal(channel, kinds)
+  try {
+    await blink.realtime.publish(channel, 'change', { kinds, source: SOURCE_ID })
+  } catch (error) {
+    // Other clients catch up on their next change; never fail the write
+    console.error('Failed to publish change:', error)
+  }
+}
+
+function subscribeToChannel(channel: string, listener: ChangeListener): () => void {
+  const listeners = localListeners.get(channel) ?? new Set<ChangeListener>()
+  listeners.add(listener)
+  localListeners.set(channel, listeners)
+
+  let closed = false
+  let unsubscribeRemote: (() => void) | null = null
+
+  blink.realtime
+    .subscribe(channel, (message) => {
+      if (message.type !== 'change' || message.data?.source === SOURCE_ID) return
+      listener(message.data?.kinds ?? [])
+    })
+    .then(unsubscribe => {
+      if (closed) {
+        unsubscribe()
+      } else {
+        unsubscribeRemote = unsubscribe
+      }
+    })
+    .catch(error => console.error('Failed to subscribe to changes:', error))
+
+  return () => {
+    closed = true
+    listeners.delete(listener)
+    unsubscribeRemote?.()
+  }
+}
+
+export function notifyGameChanged(gameId: string, ...kinds: ChangeKind[]) {
+  return publishChange(gameChannel(gameId), kinds)
+}
+
+export function notifyLobbyChanged() {
+  return publishChange(LOBBY_CHANNEL, ['game'])
+}
+
+export function subscribeToGame(gameId: string, listener: ChangeListener) {
+  return subscribeToChannel(gameChannel(gameId), listener)
+}
+
+export function subscribeToLobby(listener: () => void) {
+  return subscribeToChannel(LOBBY_CHANNEL, () => listener())
+}
@@ -0,0 +1,189 @@
+import { blink } from '../blink'
+import { formatModifier, getCheckModifier } from './abilities'
+import { applyAction, getTile, EngineError } from './engine'
+import { checkTurnLock, commitResult, rollForGame, toEngineState } from './persistence'
+import { appendMessage, getGame, listPlayers, updateGame, type NewMessage } from './repository'
+import { notifyGameChanged } from './sync'
+import { getStandings, VICTORY_CONDITIONS } from './victory'
+import { getItemCheck } from './items'
+import {
+  clampOutcome,
+  defaultOutcome,
+  ENCOUNTER_SCHEMA,
+  getEncounterBounds,
+  matchesProposal,
+  type EncounterOutcome
+} from './encounters'
+import { narrateEncounterLocally, narrateEpilogueLocally, withTimeout } from './narrator'
+import type { DiceRoll } from './dice'
+import type { EngineAction, EngineEvent, EngineState, VictoryCondition } from './types'
+
+// Turn steps shared by the human controls and the AI driver. Each step
+// checks the turn lock, rolls what it needs, and commits through the engine.
+
+export interface StepResult {
+  state: EngineState
+  events: EngineEvent[]
+  roll?: DiceRoll
+}
+
+export async function loadEngineState(gameId: string): Promise<EngineState> {
+  const game = await getGame(gameId)
+  if (!game) {
+    throw new EngineError('Game not found')
+  }
+
+  return toEngineState(game, await listPlayers(gameId))
+}
+
+// Narration is only posted once the action it tells of has committed
+export async function runAction(state: EngineState, action: EngineAction, narration: NewMessage[] = []): Promise<StepResult> {
+  const result = applyAction(state, action)
+  const committed = await commitResult(state, result, action.type, narration)
+
+  const ended = result.events.find(e => e.type === 'game_ended')
+  if (ended) {
+    await writeEpilogue(committed, ended.playerId, ended.reason)
+  }
+  return { state: committed, events: result.events }
+}
+
+// The narrator closes a finished game. The game is already over by the time
+// this runs, so a failure here only costs the story, never the result.
+async function writeEpilogue(state: EngineState, winnerId: string, reason: VictoryCondition) {
+  try {
+    const winner = state.players.find(p => p.id === winnerId)
+    const standings = getStandings(state)
+      .map((s, i) => `${i + 1}. ${s.player.character_name} the ${s.player.character_class} (${s.netWorth} gold worth, ${s.player.status})`)
+      .join('\n')
+
+    let epilogue: string
+    try {
+      const { text } = await withTimeout(blink.ai.generateText({
+        prompt: `The Shadow Realm adventure is over after ${state.game.current_turn} turns.
+        ${winner?.character_name} the ${winner?.character_class} has won by ${VICTORY_CONDITIONS[reason].description.toLowerCase()}.
+
+        Final standings:
+        ${standings}
+
+        Write a short 2-3 sentence epilogue celebrating the winner and mentioning the fates of the other heroes.`,
+        maxTokens: 200
+      }))
+      epilogue = text
+    } catch (error) {
+      console.error('Narrator unavailable, writing epilogue locally:', error)
+      epilogue = narrateEpilogueLocally(winner?.character_name ?? 'A hero', state.game.current_turn)
+    }
+
+    await updateGame(state.game.id, { epilogue })
+    await appendMessage({
+      game_id: state.game.id,
+      player_id: null,
+      message_type: 'narrator',
+      content: epilogue,
+      metadata: { action: 'epilogue' }
+    })
+    await notifyGameChanged(state.game.id, 'game', 'chat')
+  } catch (error) {
+    console.error('Failed to write epilogue:', error)
+  }
+}
+
+export async function takeMovementRoll(state: EngineState, playerId: string): Promise<StepResult> {
+  // Dice are only rolled against the game state this client last saw
+  await checkTurnLock(state.game)
+  const roll = await rollForGame(state.game.id, { purpose: 'movement', count: 2, sides: 6, stream: playerId })
+  const step = await runAction(state, { type: 'roll_movement', playerId, dice: roll.values, rollIndex: roll.index })
+  return { ...step, roll }
+}
+
+export async function takeActionRoll(state: EngineState, playerId: string): Promise<StepResult> {
+  const player = state.players.find(p => p.id === playerId)
+  const tile = player ? getTile(state, player.position) : undefined
+  if (!player || !tile) {
+    throw new EngineError('Tile not found')
+  }
+
+  // A dry run turns away the wrong phase or turn before a die is spent on it
+  applyAction(state, { type: 'resolve_tile', playerId, roll: 1 })
+
+  // A reroll boon rolls a second d20 alongside the first
+  const itemCheck = getItemCheck(player, tile.tile_type)
+  await checkTurnLock(state.game)
+  const roll = await rollForGame(state.game.id, {
+    purpose: 'action',
+    count: itemCheck.reroll ? 2 : 1,
+    sides: 20,
+    stream: playerId
+  })
+  const [firstRoll, reroll] = roll.values
+  const actionRoll = reroll === undefined ? firstRoll : Math.max(firstRoll, reroll)
+  const modifier = getCheckModifier(player, tile.tile_type)
+  const modifierTotal = modifier.total + itemCheck.bonus
+  const breakdown = [modifier.breakdown, ...itemCheck.parts].join(', ')
+  const total = actionRoll + modifierTotal
+
+  // The narrator proposes the outcome along with the story, within the
+  // bounds the check allows; the engine clamps it again when applying it
+  const bounds = getEncounterBounds(tile.tile_type, total)
+  const fallback = defaultOutcome(tile.tile_type, total)
+  let outcome: EncounterOutcome
+  let narrator: 'ai' | 'local' = 'ai'
+  try {
+    const { object } = await withTimeout(blink.ai.generateObject({
+      prompt: `${player.character_name} the ${player.character_class} has landed on "${tile.name}" (${tile.description}) in the ${tile.region}.
+      They rolled a ${actionRoll} on a d20 action roll, ${formatModifier(modifierTotal)} from ${breakdown}, for a total of ${total}.
+
+      This is a ${tile.tile_type} tile. Decide what happens and narrate it in 1-2 exciting sentences fit for a D&D adventure.
+      The outcome must stay within these limits, and the narration must match it:
+      - health_change between ${bounds.health[0]} and ${bounds.health[1]}
+      - gold_change between ${bounds.gold[0]} and ${bounds.gold[1]}
+      - item_id: ${bounds.items.length > 0 ? `null or one of ${bounds.items.join(', ')}` : 'null'}
+      - status_effect: ${bounds.status_effects.length > 0 ? `null or one of ${bounds.status_effects.join(', ')}` : 'null'}
+
+      Higher totals should lean towards the better end of each range.`,
+      schema: ENCOUNTER_SCHEMA
+    }))
+    outcome = clampOutcome(object, bounds, fallback)
+    if (!matchesProposal(object, outcome)) {
+      // The story was written for numbers the engine will not apply
+      outcome = { ...outcome, narration: '' }
+      narrator = 'local'
+    }
+  } catch (error) {
+    // The game goes on without the AI: the fixed table decides instead
+    console.error('Narrator unavailable, narrating locally:', error)
+    outcome = fallback
+    narrator = 'local'
+  }
+  const narration = outcome.narration || narrateEncounterLocally(player, tile, outcome, `${state.game.id}:${roll.index}`)
+
+  const step = await runAction(
+    state,
+    {
+      type: 'resolve_tile',
+      playerId,
+      roll: firstRoll,
+      reroll,
+      rollIndex: roll.index,
+      outcome
+    },
+    [{
+      game_id: state.game.id,
+      player_id: player.id,
+      message_type: 'narrator',
+      content: narration,
+      metadata: {
+        action: 'tile_encounter',
+        roll: actionRoll,
+        modifier: modifierTotal,
+        total,
+        rollIndex: roll.index,
+        tile,
+        outcome,
+        narrator
+      }
+    }]
+  )
+  return { ...step, roll }
+}
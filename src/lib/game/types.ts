@@ -0,0 +1,179 @@
+import type { EncounterOutcome } from './encounters'
+import type { StatusEffect } from './items'
+
+// Plain data shapes used by the rules engine. Field names mirror the
+// database columns so rows can be converted with minimal mapping.
+
+export type GameStatus = 'waiting' | 'active' | 'finished'
+
+export type PlayerStatus = 'active' | 'downed' | 'eliminated'
+
+// What happens to a hero who drops to 0 health
+export interface DeathRules {
+  // 'lose_turn': stay down where you fell and spend your next turn recovering
+  // 'respawn': return to the Portal at once, paying a gold penalty
+  mode: 'lose_turn' | 'respawn'
+  recover_health: number
+  respawn_gold_penalty: number
+  // Knockouts before a hero is out of the game; null means never
+  eliminate_after: number | null
+}
+
+// An item effect waiting for the hero's next action check
+export interface Boon {
+  item_id: string
+  bonus: number
+  // Tile types the boon applies to; null means any check
+  tile_types: string[] | null
+  // Roll the d20 twice and keep the better result
+  reroll: boolean
+}
+
+// Where the current player is within their turn. Each phase accepts a
+// fixed set of actions, so a step cannot be repeated or skipped.
+export type TurnPhase = 'awaiting_move' | 'awaiting_action' | 'awaiting_purchase' | 'done'
+
+export type VictoryCondition = 'richest' | 'last_standing' | 'region' | 'quest'
+
+// How a game can be won; any enabled condition ends it
+export interface VictoryRules {
+  conditions: VictoryCondition[]
+  // Full rounds played before the richest hero wins
+  turn_limit: number
+}
+
+// Optional table rules the host can switch on
+export interface HouseRules {
+  // Landing exactly on the Portal pays the pass bonus twice
+  double_on_exact_landing: boolean
+  // Downed and eliminated owners collect no rent
+  no_rent_while_downed: boolean
+}
+
+// Everything the host picks when creating a game. The engine reads these
+// rather than fixed constants.
+export interface GameSettings {
+  max_players: number
+  starting_gold: number
+  // Heroes start at full health, so this is also the health cap
+  starting_health: number
+  pass_start_bonus: number
+  // Seconds a human has to finish their turn before the AI steps in; 0 for no limit
+  turn_timer: number
+  // Seat AI heroes in the empty places when the game starts
+  ai_fill: boolean
+  board_id: string
+  death_rules: DeathRules
+  victory_rules: VictoryRules
+  house_rules: HouseRules
+}
+
+export interface EngineGame {
+  id: string
+  current_turn: number
+  current_player: number
+  status: GameStatus
+  // Bumped on every committed action; stale clients are rejected by it
+  version: number
+  ai_difficulty: string
+  turn_phase: TurnPhase
+  settings: GameSettings
+  // Tile the adventure's quest objective is tied to, if any
+  quest_position: number | null
+  winner_id: string | null
+}
+
+export interface EnginePlayer {
+  id: string
+  player_number: number
+  character_name: string
+  character_class: string
+  position: number
+  health: number
+  gold: number
+  properties: number[]
+  is_ai: boolean
+  // A human seat the AI is playing while its owner is away
+  ai_controlled: boolean
+  ai_personality: string | null
+  status: PlayerStatus
+  knockouts: number
+  // Item ids from the catalog, in the order they were found
+  inventory: string[]
+  boons: Boon[]
+  strength: number
+  dexterity: number
+  constitution: number
+  intelligence: number
+  wisdom: number
+  charisma: number
+}
+
+export interface EngineTile {
+  position: number
+  tile_type: string
+  name: string
+  description: string
+  region: string
+  purchase_price: number
+  rent_price: number
+}
+
+export interface EngineState {
+  game: EngineGame
+  players: EnginePlayer[]
+  tiles: EngineTile[]
+}
+
+export type EngineAction =
+  | { type: 'roll_movement'; playerId: string; dice: number[]; rollIndex?: number }
+  // reroll is the second d20, used only when a boon grants one. outcome is
+  // the narrator's proposal; the engine clamps it or uses its fixed table.
+  | {
+      type: 'resolve_tile'
+      playerId: string
+      roll: number
+      reroll?: number
+      rollIndex?: number
+      outcome?: EncounterOutcome
+    }
+  | { type: 'buy_property'; playerId: string }
+  | { type: 'decline_purchase'; playerId: string }
+  | { type: 'end_turn'; playerId: string }
+  | { type: 'recover'; playerId: string }
+  | { type: 'revive'; playerId: string; targetId: string }
+  | { type: 'use_item'; playerId: string; itemId: string }
+
+export type EngineEvent =
+  | { type: 'moved'; playerId: string; dice: number[]; total: number; from: number; to: number; rollIndex?: number }
+  | { type: 'passed_start'; playerId: string; bonus: number }
+  | {
+      type: 'tile_resolved'
+      playerId: string
+      roll: number
+      modifier: number
+      total: number
+      breakdown: string
+      position: number
+      rollIndex?: number
+    }
+  | { type: 'health_changed'; playerId: string; amount: number }
+  | { type: 'gold_changed'; playerId: string; amount: number }
+  | { type: 'property_bought'; playerId: string; position: number; price: number }
+  | { type: 'rent_paid'; playerId: string; ownerId: string; position: number; amount: number }
+  | { type: 'turn_ended'; playerId: string; nextPlayer: number; turn: number }
+  | { type: 'player_downed'; playerId: string; knockouts: number }
+  | { type: 'player_respawned'; playerId: string; health: number; penalty: number }
+  | { type: 'player_recovered'; playerId: string; health: number }
+  | { type: 'player_revived'; playerId: string; targetId: string; health: number }
+  | { type: 'player_eliminated'; playerId: string }
+  | { type: 'item_found'; playerId: string; itemId: string }
+  | { type: 'item_used'; playerId: string; itemId: string }
+  | { type: 'status_effect_gained'; playerId: string; effect: StatusEffect }
+  // playerId is the winner
+  | { type: 'game_ended'; playerId: string; reason: VictoryCondition }
+
+export interface EngineResult {
+  state: EngineState
+  events: EngineEvent[]
+}
@@ -0,0 +1,110 @@
+import type { EngineEvent, EnginePlayer, EngineResult, EngineState, EngineTile, VictoryCondition, VictoryRules } from './types'
+
+export const VICTORY_CONDITIONS: Record<VictoryCondition, { label: string; description: string }> = {
+  richest: { label: 'Richest Hero', description: 'Highest net worth when the turn limit is reached' },
+  last_standing: { label: 'Last Standing', description: 'The only hero not eliminated' },
+  region: { label: 'Region Lord', description: 'First to own every property in a region' },
+  quest: { label: 'Quest', description: 'First to conquer the adventure\'s quest objective' }
+}
+
+export const DEFAULT_VICTORY_RULES: VictoryRules = {
+  conditions: ['richest', 'last_standing', 'region', 'quest'],
+  turn_limit: 30
+}
+
+// Check total needed on the quest tile to complete the objective
+export const QUEST_DC = 15
+
+export interface Standing {
+  player: EnginePlayer
+  propertyValue: number
+  netWorth: number
+}
+
+// Heroes still in the game rank above eliminated ones, then by net worth
+export function getStandings(state: EngineState): Standing[] {
+  return state.players
+    .map(player => {
+      const propertyValue = player.properties.reduce(
+        (sum, position) => sum + (state.tiles.find(t => t.position === position)?.purchase_price ?? 0),
+        0
+      )
+      return { player, propertyValue, netWorth: player.gold + propertyValue }
+    })
+    .sort((a, b) => {
+      const aOut = a.player.status === 'eliminated' ? 1 : 0
+      const bOut = b.player.status === 'eliminated' ? 1 : 0
+      return aOut - bOut || b.netWorth - a.netWorth
+    })
+}
+
+// The quest is tied to one of the board's monsters, away from the start
+export function getQuestCandidates(tiles: EngineTile[]): EngineTile[] {
+  return tiles.filter(t => t.tile_type === 'monster' && t.position >= tiles.length / 2)
+}
+
+// `roll` is a die with one side per candidate, rolled from the game's seed
+export function pickQuestTile(tiles: EngineTile[], roll: number): EngineTile | undefined {
+  return getQuestCandidates(tiles)[roll - 1]
+}
+
+const ownsRegion = (state: EngineState, player: EnginePlayer) => {
+  const regions = new Map<string, number[]>()
+  state.tiles
+    .filter(t => t.tile_type === 'property')
+    .forEach(t => regions.set(t.region, [...(regions.get(t.region) ?? []), t.position]))
+
+  return [...regions.values()].some(positions => positions.every(p => player.properties.includes(p)))
+}
+
+const findWinner = (
+  state: EngineState,
+  events: EngineEvent[]
+): { playerId: string; reason: VictoryCondition } | null => {
+  const { conditions, turn_limit } = state.game.settings.victory_rules
+  const enabled = (condition: VictoryCondition) => conditions.includes(condition)
+  const standing = state.players.filter(p => p.status !== 'eliminated')
+
+  if (enabled('quest') && state.game.quest_position !== null) {
+    const conquest = events.find(
+      e => e.type === 'tile_resolved' && e.position === state.game.quest_position && e.total >= QUEST_DC
+    )
+    if (conquest) {
+      return { playerId: conquest.playerId, reason: 'quest' }
+    }
+  }
+
+  if (enabled('region')) {
+    const lord = standing.find(p => ownsRegion(state, p))
+    if (lord) {
+      return { playerId: lord.id, reason: 'region' }
+    }
+  }
+
+  if (enabled('last_standing') && state.players.length > 1 && standing.length === 1) {
+    return { playerId: standing[0].id, reason: 'last_standing' }
+  }
+
+  // With nobody left to take a turn the game ends on net worth regardless
+  const turnLimitReached = enabled('richest') && events.some(e => e.type === 'turn_ended' && e.turn > turn_limit)
+  if (standing.length === 0 || turnLimitReached) {
+    const [leader] = getStandings(state)
+    return leader ? { playerId: leader.player.id, reason: 'richest' } : null
+  }
+
+  return null
+}
+
+// Ends the game if the action just applied satisfied a victory condition
+export function checkVictory(result: EngineResult): EngineResult {
+  const { state, events } = result
+  if (state.game.status !== 'active') return result
+
+  const winner = findWinner(state, events)
+  if (!winner) return result
+
+  return {
+    state: { ...state, game: { ...state.game, status: 'finished', winner_id: winner.playerId } },
+    events: [...events, { type: 'game_ended', ...winner }]
+  }
+}